@@ -20,6 +20,7 @@ interface KratosConfig {
   autosave: boolean;
   confirm_on_save: boolean;
   budget_bytes: number;
+  budget_tokens?: number;
   top_k: number;
   ttl_days_low: number;
   allowlist_concepts: string[];
@@ -86,7 +87,10 @@ class KratosMiddlewareV2 {
     logger.info(`📁 Active Project: ${this.activeProject?.name || 'None'}`);
     logger.info(`🎯 Mode: ${this.config.mode.toUpperCase()}`);
     logger.info(`💾 Auto-save: ${this.config.autosave ? 'ON' : 'OFF'}`);
-    logger.info(`💰 Budget: ${this.config.budget_bytes} bytes, Top-K: ${this.config.top_k}`);
+    const budget = this.config.budget_tokens !== undefined
+      ? `${this.config.budget_tokens} tokens`
+      : `${this.config.budget_bytes} bytes`;
+    logger.info(`💰 Budget: ${budget}, Top-K: ${this.config.top_k}`);
   }
 
   private loadConfig(): KratosConfig {
@@ -369,12 +373,12 @@ class KratosMiddlewareV2 {
 
   private hasBugFixPattern(): boolean {
     const hasErrorSearch = this.currentTurn.toolCalls.some(t => 
-      t.name === 'memory.search' && 
+      t.name === 'memory_search' && 
       JSON.stringify(t.args).toLowerCase().includes('error')
     );
     
     const hasCodeChanges = this.currentTurn.toolCalls.some(t =>
-      ['memory.save', 'prd.update'].includes(t.name)
+      ['memory_save', 'prd.update'].includes(t.name)
     );
     
     return hasErrorSearch && hasCodeChanges;
@@ -382,7 +386,7 @@ class KratosMiddlewareV2 {
 
   private hasArchitecturePattern(): boolean {
     const hasPRDAccess = this.currentTurn.toolCalls.some(t => t.name === 'prd.fetch');
-    const hasContextCheck = this.currentTurn.toolCalls.some(t => t.name === 'context.preview');
+    const hasContextCheck = this.currentTurn.toolCalls.some(t => t.name === 'context_preview');
     
     return hasPRDAccess && hasContextCheck;
   }
@@ -393,7 +397,7 @@ class KratosMiddlewareV2 {
       id: Date.now(),
       method: 'tools/call',
       params: {
-        name: 'memory.save',
+        name: 'memory_save',
         arguments: {
           summary: candidate.summary,
           text: candidate.text,
@@ -415,11 +419,12 @@ class KratosMiddlewareV2 {
       id: Date.now(),
       method: 'tools/call',
       params: {
-        name: 'context.preview',
+        name: 'context_preview',
         arguments: {
           open_files: this.currentTurn.openFiles,
           task: this.currentTurn.userMessage || 'Current task',
           budget_bytes: this.config.budget_bytes,
+          budget_tokens: this.config.budget_tokens,
           top_k: this.config.top_k
         }
       }
@@ -454,7 +459,7 @@ class KratosMiddlewareV2 {
   }
 
   private isRelevantTool(toolName: string): boolean {
-    const relevantTools = ['memory.save', 'prd.update', 'concept.search', 'memory.search'];
+    const relevantTools = ['memory_save', 'prd.update', 'concept_search', 'memory_search'];
     return relevantTools.includes(toolName);
   }
 
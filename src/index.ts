@@ -11,21 +11,39 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import chalk from 'chalk';
 
-import { MemoryDatabase } from './memory-server/database.js';
+import { MemoryDatabase, SearchResult, MEMORY_LINK_TYPES, PACKAGE_TAG_PREFIX } from './memory-server/database.js';
+import { QueryParseError } from './memory-server/query-language.js';
+import { ContextBroker } from './memory-server/context-broker.js';
+import { listPresets } from './memory-server/ranking-profile.js';
+import { ConceptStore, Concept, ConceptConflict, ConceptOrigin, ConceptLinkStatus, RelationshipType } from './memory-server/concept-store.js';
+import { exportPack, importPack, parsePack, serializePack, ConflictStrategy } from './memory-server/concept-pack.js';
+import { toDot, toMermaid } from './memory-server/concept-graph.js';
+import { ConflictItem, conflictSearchTerms, findConflicts } from './memory-server/conflict-detector.js';
+import { PathCheck, PathSnapshot, checkSnapshot, isStale, snapshotPath } from './memory-server/staleness.js';
+import { parseTimeframe, Timeframe } from './utils/timeframe.js';
+import { GitHead, branchCommit, commitsTouching, gitHead, isMergedInto, trunkBranch } from './utils/git.js';
 import { ProjectManager } from './project-manager.js';
 import { MCPLogger as Logger } from './utils/mcp-logger.js';
 import { PIIDetector } from './security/pii-detector.js';
 
 import fs from 'fs-extra';
 import path from 'path';
+import crypto from 'crypto';
 
 const logger = new Logger('Kratos');
 
+// How long a project_delete / project_merge confirmation token stays valid
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
 class KratosProtocolServer {
   private server: Server;
   private projectManager: ProjectManager;
   private memoryDb: MemoryDatabase | null = null;
   private piiDetector: PIIDetector;
+  // Ranking preset chosen with context_preset; null means the project config's default
+  private rankingPreset: string | null = null;
+  // Pending confirmations for destructive project operations, by token
+  private confirmations: Map<string, { action: string; key: string; expiresAt: number }> = new Map();
 
   constructor() {
     this.server = new Server(
@@ -50,16 +68,21 @@ class KratosProtocolServer {
   private parseNaturalLanguageQuery(question: string): {
     searchTerms: string[];
     tags: string[];
-    timeframe?: string;
+    timeframe?: Timeframe;
     intent: 'search' | 'list' | 'explain' | 'find';
   } {
     const lowerQ = question.toLowerCase();
 
-    // Extract search terms (remove common question words)
-    const stopWords = new Set(['show', 'me', 'all', 'the', 'what', 'how', 'when', 'where', 'why', 'find', 'get', 'about', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'from']);
-    const words = question.split(/\s+/).filter(word =>
-      word.length > 2 && !stopWords.has(word.toLowerCase())
-    );
+    // Extract timeframe
+    const timeframe = parseTimeframe(question) || undefined;
+
+    // Extract search terms (remove common question words and the time window)
+    const stopWords = new Set(['show', 'me', 'all', 'the', 'what', 'how', 'when', 'where', 'why', 'find', 'get', 'about', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'from',
+      'list', 'explain', 'memories', 'memory', 'did', 'does', 'was', 'were', 'are', 'our', 'we', 'any', 'which', 'made', 'created', 'save', 'saved', 'happened', 'learned']);
+    const termText = timeframe ? question.replace(new RegExp(timeframe.phrase, 'i'), ' ') : question;
+    const words = termText.split(/\s+/)
+      .map(word => word.replace(/[?!.,;:]+$/, ''))
+      .filter(word => word.length > 2 && !stopWords.has(word.toLowerCase()));
 
     // Detect intent
     let intent: 'search' | 'list' | 'explain' | 'find' = 'search';
@@ -71,14 +94,6 @@ class KratosProtocolServer {
       intent = 'find';
     }
 
-    // Extract timeframe
-    let timeframe: string | undefined;
-    if (lowerQ.includes('today')) timeframe = 'today';
-    else if (lowerQ.includes('yesterday')) timeframe = 'yesterday';
-    else if (lowerQ.includes('this week')) timeframe = 'week';
-    else if (lowerQ.includes('last week')) timeframe = 'last_week';
-    else if (lowerQ.includes('this month')) timeframe = 'month';
-
     // Extract potential tags from technical terms
     const tags: string[] = [];
     const techTerms = ['bug', 'error', 'fix', 'debug', 'feature', 'api', 'database', 'auth', 'ui', 'frontend', 'backend'];
@@ -106,6 +121,9 @@ class KratosProtocolServer {
     } else if (debugInfo.fallback_used === 'broad_search') {
       suggestions.push('Search was narrowed to just the first word');
       suggestions.push('Consider using different keywords');
+    } else if (debugInfo.fallback_used === 'semantic_only') {
+      suggestions.push('No keyword matches - results are semantically related memories');
+      suggestions.push('Try the exact terms used in those memories for sharper results');
     } else if (debugInfo.fallback_used === 'all_failed') {
       suggestions.push('No memories found with those terms');
       suggestions.push('Try broader keywords or check spelling');
@@ -122,6 +140,475 @@ class KratosProtocolServer {
     return suggestions;
   }
 
+  private formatSearchResult(r: SearchResult, explain: boolean = false) {
+    return {
+      id: r.memory.id,
+      summary: r.memory.summary,
+      snippet: r.snippet,
+      score: r.score,
+      tags: r.memory.tags,
+      paths: r.memory.paths,
+      importance: r.memory.importance,
+      created_at: r.memory.created_at,
+      branch: r.memory.branch,
+      superseded_by: r.superseded_by,
+      links: r.links,
+      score_breakdown: explain ? this.roundBreakdown(r.score_breakdown || {}) : undefined,
+      signals: explain ? { bm25: r.bm25, similarity: r.similarity } : undefined,
+      _hint: 'Use memory_get with id to retrieve full text'
+    };
+  }
+
+  private conceptStore(origin: ConceptOrigin = 'project'): ConceptStore {
+    return origin === 'global'
+      ? ConceptStore.getGlobal()
+      : ConceptStore.getInstance(this.projectManager.getCurrentProject()!.id);
+  }
+
+  /**
+   * Resolve a concept ID in the project store first, then the global library
+   */
+  private findConcept(id: string, origin?: ConceptOrigin) {
+    const origins: ConceptOrigin[] = origin ? [origin] : ['project', 'global'];
+    for (const candidate of origins) {
+      const concept = this.conceptStore(candidate).get(id);
+      if (concept) return { concept, origin: candidate };
+    }
+    return null;
+  }
+
+  /**
+   * Concept hits shaped like memory search results. BM25 is normalised against
+   * the best hit so scores are on the same 0..1 scale as memory results.
+   */
+  private searchConcepts(q: string, k: number) {
+    const results = ConceptStore.searchAll(this.projectManager.getCurrentProject()!.id, { q, k });
+    const maxScore = Math.max(0, ...results.map(r => r.score));
+
+    return results.map(r => ({
+      source: 'concept' as const,
+      origin: r.origin,
+      id: r.concept.id,
+      summary: r.concept.title,
+      snippet: r.snippet || r.concept.body.substring(0, 100) + (r.concept.body.length > 100 ? '...' : ''),
+      score: maxScore > 0 ? r.score / maxScore : 1.0,
+      tags: r.concept.tags,
+      importance: r.concept.importance,
+      _hint: 'Use concept_get with id to retrieve the full concept'
+    }));
+  }
+
+  /**
+   * Project scope returns memories as-is; other scopes label every result with
+   * its source and interleave memories and concepts by score.
+   */
+  private mergeScopedResults(
+    memoryResults: SearchResult[],
+    conceptHits: ReturnType<KratosProtocolServer['searchConcepts']>,
+    args: { scope?: string; k?: number; explain?: boolean }
+  ): Array<ReturnType<KratosProtocolServer['formatSearchResult']> | ReturnType<KratosProtocolServer['searchConcepts']>[number]> {
+    const scope = args.scope || 'project';
+    const memories = memoryResults.map(r => this.formatSearchResult(r, args.explain));
+    if (scope === 'project') {
+      return memories;
+    }
+
+    return [
+      ...memories.map(m => ({ source: 'project' as const, ...m })),
+      ...conceptHits
+    ].sort((a, b) => b.score - a.score).slice(0, args.k || 10);
+  }
+
+  /**
+   * Find a review queue item: a discovered concept awaiting review (project
+   * store first) or a library concept suggested to the current project
+   */
+  private findReviewItem(id: string): { kind: 'discovered' | 'suggestion'; origin: ConceptOrigin } | null {
+    for (const origin of ['project', 'global'] as ConceptOrigin[]) {
+      if (this.conceptStore(origin).get(id)?.review_status === 'pending') {
+        return { kind: 'discovered', origin };
+      }
+    }
+    const projectId = this.projectManager.getCurrentProject()!.id;
+    if (this.conceptStore('global').listSuggestions(projectId).some(c => c.id === id)) {
+      return { kind: 'suggestion', origin: 'global' };
+    }
+    return null;
+  }
+
+  private reviewQueue() {
+    const projectId = this.projectManager.getCurrentProject()!.id;
+    const summarize = (origin: ConceptOrigin, kind: 'discovered' | 'suggestion') => (c: Concept) => ({
+      id: c.id,
+      kind,
+      origin,
+      title: c.title,
+      body: c.body,
+      tags: c.tags,
+      importance: c.importance,
+      confidence: c.confidence
+    });
+
+    return [
+      ...this.conceptStore('global').listSuggestions(projectId).map(summarize('global', 'suggestion')),
+      ...this.conceptStore('project').listDiscovered().map(summarize('project', 'discovered')),
+      ...this.conceptStore('global').listDiscovered().map(summarize('global', 'discovered'))
+    ];
+  }
+
+  /**
+   * Look for existing memories and concepts that a just-saved item likely
+   * contradicts, and record each conflict so later searches flag it too
+   */
+  private detectConflicts(item: ConflictItem, origin?: ConceptOrigin): ConceptConflict[] {
+    const terms = conflictSearchTerms(item);
+    if (terms.length === 0 || !this.memoryDb) return [];
+
+    const projectId = this.projectManager.getCurrentProject()!.id;
+    const q = terms.join(' OR ');
+    const conceptOrigins = new Map<string, ConceptOrigin>();
+    const candidates: ConflictItem[] = [
+      ...this.memoryDb.search({ q, k: 25, structured: false }).map(r => ({
+        id: r.memory.id,
+        kind: 'memory' as const,
+        text: `${r.memory.summary}\n${r.memory.text}`,
+        tags: r.memory.tags
+      })),
+      ...ConceptStore.searchAll(projectId, { q, k: 25 }).map(r => {
+        conceptOrigins.set(r.concept.id, r.origin);
+        return { id: r.concept.id, kind: 'concept' as const, text: `${r.concept.title}\n${r.concept.body}`, tags: r.concept.tags };
+      })
+    ];
+
+    const conflicts: ConceptConflict[] = [];
+    for (const conflict of findConflicts(item, candidates)) {
+      const otherOrigin = conceptOrigins.get(conflict.id);
+      if (item.kind === 'memory' && conflict.kind === 'memory') {
+        this.memoryDb.link(item.id, conflict.id, 'contradicts', conflict.reason);
+      } else if (item.kind === 'memory') {
+        this.conceptStore(otherOrigin).recordMemoryConflict(conflict.id, projectId, item.id, conflict.reason);
+      } else if (conflict.kind === 'memory') {
+        this.conceptStore(origin).recordMemoryConflict(item.id, projectId, conflict.id, conflict.reason);
+      } else if (otherOrigin === origin) {
+        // Relationships only connect concepts within one store
+        this.conceptStore(origin).addRelationships(item.id, [conflict.id], 'conflicts', 1.0, conflict.reason);
+      }
+      conflicts.push({ ...conflict, origin: conflict.kind === 'concept' ? otherOrigin : undefined });
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Flag results that contradict other memories or concepts
+   */
+  private withConflicts<T extends { id: string; source?: string; origin?: ConceptOrigin }>(results: T[]): Array<T & { conflicts?: ConceptConflict[] }> {
+    const projectId = this.projectManager.getCurrentProject()!.id;
+    const memoryIds = results.filter(r => r.source !== 'concept').map(r => r.id);
+    const conceptConflicts = ConceptStore.conflictsForMemories(projectId, memoryIds);
+
+    return results.map(r => {
+      const conflicts: ConceptConflict[] = r.source === 'concept'
+        ? this.conceptStore(r.origin).getConflicts(r.id, projectId)
+        : [
+          ...(this.memoryDb?.getNeighbours(r.id, ['contradicts']) || []).map(n => ({ id: n.id, kind: 'memory' as const })),
+          ...(conceptConflicts.get(r.id) || [])
+        ];
+      return conflicts.length > 0 ? { ...r, conflicts } : r;
+    });
+  }
+
+  private conflictHint(conflicts: ConceptConflict[]): string | undefined {
+    return conflicts.length > 0
+      ? `Possible contradiction with ${conflicts.map(c => `${c.kind} ${c.id}`).join(', ')}. Check which is current before relying on either`
+      : undefined;
+  }
+
+  /**
+   * Snapshot the files a memory refers to, so later edits to them are noticed
+   */
+  private recordPathSnapshots(memory: { id: string; paths: string[]; tags: string[] }) {
+    const checkout = this.currentCheckout();
+    if (!checkout) return;
+
+    // Paths saved from inside a monorepo package are relative to that package
+    const packageName = memory.tags.find(tag => tag.startsWith(PACKAGE_TAG_PREFIX))?.slice(PACKAGE_TAG_PREFIX.length);
+    const memoryPackage = this.projectManager.getCurrentProject()?.workspace?.packages.find(p => p.name === packageName);
+    const baseDir = memoryPackage ? path.join(checkout, memoryPackage.path) : checkout;
+
+    const snapshots = memory.paths
+      .map(memoryPath => snapshotPath(checkout, memoryPath, baseDir))
+      .filter((snapshot): snapshot is PathSnapshot => snapshot !== null);
+    this.memoryDb!.setPathSnapshots(memory.id, snapshots);
+  }
+
+  /**
+   * Compare the snapshotted files of memories (all tracked ones by default)
+   * with the working tree
+   */
+  private checkMemoryPaths(ids?: string[], threshold?: number): Map<string, PathCheck[]> {
+    const checks = new Map<string, PathCheck[]>();
+    const checkout = this.currentCheckout();
+    if (!checkout || !this.memoryDb) return checks;
+
+    for (const [id, snapshots] of this.memoryDb.getPathSnapshots(ids)) {
+      checks.set(id, snapshots.map(snapshot => checkSnapshot(checkout, snapshot, threshold)));
+    }
+    return checks;
+  }
+
+  /**
+   * Flag memory results whose files were rewritten or deleted since they were saved
+   */
+  private withStaleness<T extends { id: string; source?: string }>(results: T[]): Array<T & { stale?: { paths: PathCheck[]; _hint: string } }> {
+    const checks = this.checkMemoryPaths(results.filter(r => r.source !== 'concept').map(r => r.id));
+    return results.map(r => {
+      const memoryChecks = checks.get(r.id);
+      return memoryChecks && isStale(memoryChecks) ? {
+        ...r,
+        stale: {
+          paths: memoryChecks.filter(check => check.status !== 'unchanged'),
+          _hint: 'Files this memory refers to changed since it was saved. Verify it before relying on it (see memory_staleness)'
+        }
+      } : r;
+    });
+  }
+
+  /**
+   * Mark results that are copies of a concept, flagging those whose concept
+   * has been edited since the copy was made
+   */
+  private withConceptLinks<T extends { id: string }>(results: T[]): Array<T & { concept_link?: ReturnType<KratosProtocolServer['conceptLinkMarker']> }> {
+    const links = ConceptStore.linksForMemories(this.projectManager.getCurrentProject()!.id, results.map(r => r.id));
+    return results.map(r => {
+      const link = links.get(r.id);
+      return link ? { ...r, concept_link: this.conceptLinkMarker(link) } : r;
+    });
+  }
+
+  private conceptLinkMarker(link: ConceptLinkStatus) {
+    return {
+      concept_id: link.concept_id,
+      origin: link.origin,
+      status: link.status === 'updated' ? 'concept updated' : 'current',
+      _hint: link.status === 'updated'
+        ? `The concept changed since this memory was copied. Refresh it with concept_link { id: "${link.concept_id}", refresh: true }`
+        : undefined
+    };
+  }
+
+  private roundBreakdown(breakdown: Record<string, number>): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(breakdown).map(([component, value]) => [component, Number(value.toFixed(3))])
+    );
+  }
+
+  /**
+   * Summarise the top matches for an `explain` question, grouping memories
+   * under the tag they share most with the rest of the results.
+   */
+  private buildExplanation(results: SearchResult[]) {
+    const top = results.slice(0, 5);
+    if (top.length === 0) {
+      return { answer: 'No memories cover this yet.', groups: [] };
+    }
+
+    const tagCounts = new Map<string, number>();
+    for (const r of top) {
+      for (const tag of r.memory.tags) {
+        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+      }
+    }
+
+    const groups = new Map<string, SearchResult[]>();
+    for (const r of top) {
+      const topic = [...r.memory.tags].sort((a, b) => (tagCounts.get(b) || 0) - (tagCounts.get(a) || 0))[0] || 'general';
+      groups.set(topic, [...(groups.get(topic) || []), r]);
+    }
+
+    const keyPoint = (text: string) => {
+      const firstSentence = text.split(/(?<=[.!?])\s|\n/)[0].trim();
+      return firstSentence.length > 200 ? firstSentence.substring(0, 197) + '...' : firstSentence;
+    };
+
+    const groupList = Array.from(groups.entries()).map(([topic, members]) => ({
+      topic,
+      memories: members.map(r => ({
+        id: r.memory.id,
+        summary: r.memory.summary,
+        key_point: keyPoint(r.memory.text),
+        created_at: r.memory.created_at,
+        superseded: (r.superseded_by?.length || 0) > 0
+      }))
+    }));
+
+    const answer = groupList.map(group =>
+      `${group.topic}:\n` + group.memories.map(m =>
+        `- ${m.summary}${m.superseded ? ' (superseded)' : ''}: ${m.key_point}`
+      ).join('\n')
+    ).join('\n\n');
+
+    return {
+      answer: `Based on ${top.length} ${top.length === 1 ? 'memory' : 'memories'}:\n\n${answer}`,
+      groups: groupList
+    };
+  }
+
+  private issueConfirmation(action: string, key: string): string {
+    const token = crypto.randomBytes(8).toString('hex');
+    this.confirmations.set(token, { action, key, expiresAt: Date.now() + CONFIRMATION_TTL_MS });
+    return token;
+  }
+
+  /**
+   * Tokens are single use and only valid for the exact operation they were issued for
+   */
+  private consumeConfirmation(token: string, action: string, key: string) {
+    const pending = this.confirmations.get(token);
+    this.confirmations.delete(token);
+    if (!pending || pending.action !== action || pending.key !== key || pending.expiresAt < Date.now()) {
+      throw new Error(`Invalid or expired confirm_token. Call ${action} without confirm_token to get a new one`);
+    }
+  }
+
+  private async describeProject(projectId: string) {
+    const summary = (await this.projectManager.describeProjects({ includeArchived: true }))
+      .find(p => p.id === projectId);
+    if (!summary) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+    return {
+      id: summary.id,
+      name: summary.name,
+      root: summary.root || null,
+      memories: summary.memoryCount,
+      disk_usage_bytes: summary.diskUsage,
+      last_accessed: summary.lastAccessed
+    };
+  }
+
+  private async removeProject(projectId: string) {
+    // Close the project's concept store before its files go away
+    ConceptStore.release(projectId);
+    const deleted = await this.projectManager.deleteProject(projectId);
+    ConceptStore.forgetProject(projectId);
+    return deleted;
+  }
+
+  private async mergeProjects(sourceId: string, targetId: string) {
+    const target = await this.projectManager.getProject(targetId);
+    const isActive = this.projectManager.getCurrentProject()?.id === targetId;
+    const targetDb = isActive && this.memoryDb ? this.memoryDb : new MemoryDatabase(target.root, target.id);
+
+    try {
+      const report = targetDb.mergeFrom(
+        path.join(this.projectManager.getProjectDir(sourceId), 'databases', 'memories.db')
+      );
+      ConceptStore.reassignProject(sourceId, targetId);
+      return report;
+    } finally {
+      if (targetDb !== this.memoryDb) targetDb.close();
+    }
+  }
+
+  /**
+   * Package filter for a search: the requested package, or the one Kratos
+   * runs in. '*' widens the search to the whole repository.
+   */
+  private packageScope(requested?: string): string | undefined {
+    if (requested === '*') return undefined;
+
+    const workspace = this.projectManager.getCurrentProject()?.workspace;
+    if (requested && workspace && !workspace.packages.some(p => p.name === requested)) {
+      throw new Error(`Unknown package '${requested}'. Packages: ${workspace.packages.map(p => p.name).join(', ')}`);
+    }
+    return requested || this.projectManager.getCurrentPackage()?.name;
+  }
+
+  /**
+   * Tag a new memory with the package it was saved from
+   */
+  private withPackageTag<T extends { tags?: string[] }>(params: T): T {
+    const current = this.projectManager.getCurrentPackage();
+    const tags = params.tags || [];
+    if (!current || tags.some(tag => tag.startsWith(PACKAGE_TAG_PREFIX))) return params;
+    return { ...params, tags: [...tags, `${PACKAGE_TAG_PREFIX}${current.name}`] };
+  }
+
+  /**
+   * Working tree Kratos runs in: a linked worktree, or the project root
+   */
+  private currentCheckout(): string | null {
+    return this.projectManager.getCurrentCheckout() || this.projectManager.getCurrentProject()?.root || null;
+  }
+
+  /**
+   * Branch and HEAD commit of the working tree, recorded on saved memories
+   */
+  private async gitContext(): Promise<GitHead> {
+    const checkout = this.currentCheckout();
+    return checkout ? gitHead(checkout) : { branch: null, commit: null };
+  }
+
+  /**
+   * Branch filter for a search ('current' is the checked-out branch); without
+   * one, memories saved on the checked-out branch rank higher
+   */
+  private async branchScope(requested?: string): Promise<{ branch?: string; boost_branch?: string }> {
+    const { branch: current } = await this.gitContext();
+    if (requested === 'current') {
+      if (!current) throw new Error('Not on a git branch; pass the branch name instead of "current"');
+      return { branch: current };
+    }
+    return requested ? { branch: requested } : { boost_branch: current ?? undefined };
+  }
+
+  /**
+   * Whether a branch has been merged into the trunk: judged by its tip when
+   * the branch still exists, else by the last commit a memory recorded on it.
+   * null when neither is available.
+   */
+  private async branchMerged(branch: string, lastCommit: string | undefined, trunk: string): Promise<boolean | null> {
+    const checkout = this.currentCheckout();
+    if (!checkout) return null;
+    const commit = await branchCommit(checkout, branch) ?? lastCommit;
+    return commit ? isMergedInto(checkout, commit, trunk) : null;
+  }
+
+  /**
+   * Resolve a file path given to a tool against the project root, refusing
+   * anything outside it (absolute paths, '..' segments, symlinks out of the tree)
+   */
+  private async resolveProjectPath(requested: string): Promise<string> {
+    const root = path.resolve(this.projectManager.getCurrentProject()!.root);
+    const resolved = path.resolve(root, requested);
+    const inside = (target: string, base: string) => {
+      const relative = path.relative(base, target);
+      return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    };
+
+    if (!inside(resolved, root)) {
+      throw new Error(`Path must be inside the project root (${root}): ${requested}`);
+    }
+
+    // Follow symlinks on the part of the path that exists
+    let existing = resolved;
+    while (!(await fs.pathExists(existing))) existing = path.dirname(existing);
+    if (!inside(await fs.realpath(existing), await fs.realpath(root))) {
+      throw new Error(`Path must be inside the project root (${root}): ${requested}`);
+    }
+    return resolved;
+  }
+
+  private createContextBroker(): ContextBroker {
+    const project = this.projectManager.getCurrentProject()!;
+    const broker = new ContextBroker(project.root, project.id, this.memoryDb!);
+    if (this.rankingPreset) {
+      broker.usePreset(this.rankingPreset);
+    }
+    return broker;
+  }
+
   private async initializeProject(): Promise<void> {
     // Skip if already initialized
     if (this.memoryDb) return;
@@ -150,7 +637,7 @@ class KratosProtocolServer {
         // Memory Management (per-project)
         {
           name: 'memory_save',
-          description: 'Save a memory document to the active project',
+          description: 'Save a memory document to the active project. Inside a monorepo package it is tagged package:<name> unless tags already name a package',
           inputSchema: {
             type: 'object',
             properties: {
@@ -164,19 +651,113 @@ class KratosProtocolServer {
             required: ['summary', 'text'],
           },
         },
+        {
+          name: 'memory_update',
+          description: 'Edit an existing memory in place; only the fields you pass are changed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Memory ID to update' },
+              summary: { type: 'string', description: 'New summary' },
+              text: { type: 'string', description: 'New full content' },
+              tags: { type: 'array', items: { type: 'string' }, description: 'Replacement tag list' },
+              paths: { type: 'array', items: { type: 'string' }, description: 'Replacement path list' },
+              importance: { type: 'integer', minimum: 1, maximum: 5, description: 'Importance level' },
+              ttl: { type: ['integer', 'null'], description: 'Time to live in seconds from now (null clears expiry)' },
+              expected_updated_at: { type: 'integer', description: 'Only apply if the memory still has this updated_at (optimistic concurrency)' },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'memory_history',
+          description: 'List all revisions of a memory with a diff between consecutive versions',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Memory ID' },
+              include_text: { type: 'boolean', description: 'Include the full text of each revision (default: false)' },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'memory_revert',
+          description: 'Restore a memory to an earlier revision (the current version is kept in history)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Memory ID' },
+              revision: { type: 'integer', description: 'Revision number from memory_history' },
+              expected_updated_at: { type: 'integer', description: 'Only apply if the memory still has this updated_at (optimistic concurrency)' },
+            },
+            required: ['id', 'revision'],
+          },
+        },
+        {
+          name: 'memory_link',
+          description: 'Create a typed link between two memories (e.g. A supersedes B)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_id: { type: 'string', description: 'Memory the edge starts from' },
+              target_id: { type: 'string', description: 'Memory the edge points to' },
+              type: { type: 'string', enum: [...MEMORY_LINK_TYPES], description: 'Edge type (default: relates_to)' },
+              note: { type: 'string', description: 'Optional note explaining the link' },
+            },
+            required: ['source_id', 'target_id'],
+          },
+        },
+        {
+          name: 'memory_unlink',
+          description: 'Remove a link between two memories',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_id: { type: 'string', description: 'Memory the edge starts from' },
+              target_id: { type: 'string', description: 'Memory the edge points to' },
+              type: { type: 'string', enum: [...MEMORY_LINK_TYPES], description: 'Only remove this edge type (default: all)' },
+            },
+            required: ['source_id', 'target_id'],
+          },
+        },
+        {
+          name: 'memory_links',
+          description: 'Traverse linked memories starting from one memory',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Memory ID to start from' },
+              depth: { type: 'integer', minimum: 1, maximum: 5, description: 'How many hops to follow (default: 2)' },
+              types: { type: 'array', items: { type: 'string', enum: [...MEMORY_LINK_TYPES] }, description: 'Only follow these edge types' },
+              direction: { type: 'string', enum: ['out', 'in', 'both'], description: 'Edge direction to follow (default: both)' },
+            },
+            required: ['id'],
+          },
+        },
         {
           name: 'memory_search',
-          description: 'Search memory documents in the active project',
+          description: 'Search memory documents in the active project (keyword + semantic ranking)',
           inputSchema: {
             type: 'object',
             properties: {
-              q: { type: 'string', description: 'Search query' },
+              q: {
+                type: 'string',
+                description: 'Search query. Plain text, or structured: tag:auth path:src/api/** importance>=4 ' +
+                  'created:>2026-01-01 updated:<7d -tag:wip "quoted phrase" (jwt OR session). ' +
+                  'Relative ages compare age: updated:<7d is changed within the last 7 days, created:>30d older than 30 days'
+              },
               k: { type: 'integer', description: 'Max results to return' },
               require_path_match: { type: 'boolean', description: 'Require path matching' },
               tags: { type: 'array', items: { type: 'string' }, description: 'Filter by tags' },
               include_expired: { type: 'boolean', description: 'Include expired memories' },
               debug: { type: 'boolean', description: 'Include debug information about search process' },
-              scope: { type: 'string', enum: ['project', 'global', 'all'], description: 'Search scope: project (default), global concepts, or all' },
+              semantic: { type: 'boolean', description: 'Blend in embedding similarity so related wording matches (default: true)' },
+              explain: { type: 'boolean', description: 'Include a per-signal score breakdown for each result' },
+              structured: { type: 'boolean', description: 'Force (true) or disable (false) structured query parsing (default: auto-detect)' },
+              scope: { type: 'string', enum: ['project', 'global', 'all'], description: 'Search scope: project memories (default), global concepts, or all (merged, each result labelled with its source)' },
+              package: { type: 'string', description: "Monorepo package to search (default: the package Kratos runs in); '*' searches the whole repository" },
+              branch: { type: 'string', description: "Only memories saved on this git branch ('current' for the checked-out one). Without it, memories from the checked-out branch rank higher" },
             },
             required: ['q'],
           },
@@ -217,16 +798,54 @@ class KratosProtocolServer {
         },
         {
           name: 'memory_ask',
-          description: 'Ask questions about your memories using natural language',
+          description: 'Ask questions about your memories using natural language. Understands time windows (today, last week, since March, last 3 days); "list" questions return a chronological listing and "explain" questions a grouped summary',
           inputSchema: {
             type: 'object',
             properties: {
               question: { type: 'string', description: 'Natural language question about your memories' },
               limit: { type: 'integer', description: 'Max results to return (default: 10)' },
+              package: { type: 'string', description: "Monorepo package to search (default: the package Kratos runs in); '*' searches the whole repository" },
             },
             required: ['question'],
           },
         },
+        {
+          name: 'memory_feedback',
+          description: 'Mark a memory as helpful or unhelpful; feedback shifts its search and context ranking',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Memory ID' },
+              helpful: { type: 'boolean', description: 'true if the memory helped; false if it was wrong, outdated or irrelevant' },
+            },
+            required: ['id', 'helpful'],
+          },
+        },
+        {
+          name: 'memory_staleness',
+          description: 'Find memories whose referenced files were substantially rewritten or deleted since they were saved, then re-verify them against the current files or expire them',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: ['check', 'reverify', 'expire'], description: 'check: list stale memories (default); reverify: accept the current files as matching the memories; expire: retire the memories' },
+              ids: { type: 'array', items: { type: 'string' }, description: 'Memories to act on; check defaults to every memory with tracked files' },
+              threshold: { type: 'number', description: 'Share of lines (0-1) a file must keep to count as only lightly modified (default: 0.6)' },
+              limit: { type: 'integer', description: 'Max stale memories to list (default: 20)' },
+            },
+          },
+        },
+        {
+          name: 'memory_promote_branch',
+          description: 'Move memories saved on a merged git branch to the trunk. Without a branch, lists branches that have memories and whether each is merged',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              branch: { type: 'string', description: 'Branch whose memories to promote' },
+              into: { type: 'string', description: "Trunk branch (default: origin's default branch, else main or master)" },
+              force: { type: 'boolean', description: 'Promote even if the branch is not merged, e.g. after a squash or rebase merge' },
+            },
+          },
+        },
         {
           name: 'memory_forget',
           description: 'Delete a memory by ID',
@@ -239,62 +858,338 @@ class KratosProtocolServer {
           },
         },
 
-        // Security Tools
+        // Concepts (reusable knowledge: patterns, checklists)
         {
-          name: 'security_scan',
-          description: 'Scan text for PII and secrets',
+          name: 'concept_save',
+          description: 'Save or update a reusable concept (pattern, checklist, best practice) in this project or the global library',
           inputSchema: {
             type: 'object',
             properties: {
-              text: { type: 'string', description: 'Text to scan' },
-              redact: { type: 'boolean', description: 'Return redacted version' },
+              scope: { type: 'string', enum: ['project', 'global'], description: 'Save to this project (default) or the global library shared by all projects' },
+              id: { type: 'string', description: 'Concept ID to update; omit to create (derived from the title)' },
+              title: { type: 'string', description: 'Concept title' },
+              body: { type: 'string', description: 'Concept body (600-900 characters recommended)' },
+              tags: { type: 'array', items: { type: 'string' }, description: 'Tags' },
+              importance: { type: 'integer', minimum: 1, maximum: 5, description: 'Importance level (1-5)' },
+              related_to: { type: 'array', items: { type: 'string' }, description: 'IDs of related concepts (concepts sharing tags are linked automatically)' },
             },
-            required: ['text'],
+            required: ['title', 'body'],
           },
         },
-
-        // Project Management
         {
-          name: 'project_switch',
-          description: 'Switch to a different project',
+          name: 'concept_search',
+          description: "Search this project's concepts and the global library by keyword; each result is labelled with its origin",
           inputSchema: {
             type: 'object',
             properties: {
-              project_path: { type: 'string', description: 'Path to project directory' },
+              q: { type: 'string', description: 'Search query ("*" lists all concepts)' },
+              k: { type: 'integer', description: 'Max results to return (default: 10)' },
+              allowlisted_only: { type: 'boolean', description: "Only include library concepts on this project's allowlist" },
+              scope: { type: 'string', enum: ['all', 'project', 'global'], description: 'Search both stores (default), only this project, or only the global library' },
+              include_related: { type: 'boolean', description: 'Also return concepts related to the top hits' },
             },
-            required: ['project_path'],
+            required: ['q'],
           },
         },
         {
-          name: 'project_current',
-          description: 'Get current active project',
+          name: 'concept_get',
+          description: 'Get a concept by ID with its full body',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              id: { type: 'string', description: 'Concept ID' },
+              scope: { type: 'string', enum: ['project', 'global'], description: 'Where to look (default: this project, then the global library)' },
+            },
+            required: ['id'],
           },
         },
         {
-          name: 'change_storage_path',
-          description: 'Dynamically change where Kratos stores data (with automatic migration)',
+          name: 'concept_delete',
+          description: 'Delete a concept by ID (also removes it from allowlists)',
           inputSchema: {
             type: 'object',
             properties: {
-              newPath: { type: 'string', description: 'New storage path (e.g., "/opt/kratos" or ".kratos")' },
-              migrate: { type: 'boolean', description: 'Migrate existing data to new location (default: true)' },
-              backup: { type: 'boolean', description: 'Create backup before migration (default: true)' },
+              id: { type: 'string', description: 'Concept ID to delete' },
+              scope: { type: 'string', enum: ['project', 'global'], description: 'Where to delete from (default: this project, then the global library)' },
             },
-            required: ['newPath'],
+            required: ['id'],
           },
         },
-
-        // System Management
         {
-          name: 'system_status',
-          description: 'Get system status and statistics',
+          name: 'concept_link',
+          description: "Copy a concept into this project's memories, or refresh the copy after the concept changed",
           inputSchema: {
             type: 'object',
-            properties: {},
-          },
+            properties: {
+              id: { type: 'string', description: 'Concept ID' },
+              scope: { type: 'string', enum: ['project', 'global'], description: 'Where the concept lives (default: this project, then the global library)' },
+              refresh: { type: 'boolean', description: 'Rewrite an existing copy from the current concept' },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'concept_graph',
+          description: 'Get the N-hop relationship subgraph around a concept or a tag, as JSON or rendered as Graphviz DOT or Mermaid',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Start from this concept' },
+              tag: { type: 'string', description: 'Start from every concept with this tag' },
+              scope: { type: 'string', enum: ['project', 'global'], description: 'Store to walk (default: the one holding id, or this project for tag)' },
+              depth: { type: 'integer', minimum: 1, maximum: 5, description: 'Hops to follow (default: 2)' },
+              types: { type: 'array', items: { type: 'string', enum: ['related', 'prerequisite', 'extends', 'conflicts'] }, description: 'Only follow these relationship types' },
+              format: { type: 'string', enum: ['json', 'dot', 'mermaid'], description: 'Output format (default: json)' },
+            },
+          },
+        },
+        {
+          name: 'concept_pack_export',
+          description: 'Export concepts and their relationships as a versioned JSON or YAML concept pack for sharing',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              scope: { type: 'string', enum: ['project', 'global'], description: 'Export from this project (default) or the global library' },
+              ids: { type: 'array', items: { type: 'string' }, description: 'Only these concept IDs' },
+              tags: { type: 'array', items: { type: 'string' }, description: 'Only concepts with any of these tags' },
+              name: { type: 'string', description: 'Pack name' },
+              description: { type: 'string', description: 'Pack description' },
+              format: { type: 'string', enum: ['json', 'yaml'], description: 'Output format (default: json)' },
+              path: { type: 'string', description: 'Write the pack to this file inside the project (relative to the project root) instead of returning it' },
+            },
+          },
+        },
+        {
+          name: 'concept_pack_import',
+          description: 'Import a JSON or YAML concept pack, resolving ID conflicts by skipping, overwriting or renaming',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'Pack file inside the project to read (relative to the project root)' },
+              content: { type: 'string', description: 'Pack contents, instead of a file' },
+              scope: { type: 'string', enum: ['project', 'global'], description: 'Import into this project (default) or the global library' },
+              on_conflict: { type: 'string', enum: ['skip', 'overwrite', 'rename'], description: 'When a concept ID already exists: keep it (default), replace it, or import under a new ID' },
+            },
+          },
+        },
+        {
+          name: 'concept_review',
+          description: 'Review pending concept suggestions and discovered concepts: list the queue, then accept, reject or edit items in bulk. Rejected items are not suggested again',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              accept: { type: 'array', items: { type: 'string' }, description: 'IDs to accept' },
+              reject: { type: 'array', items: { type: 'string' }, description: 'IDs to reject' },
+              edit: {
+                type: 'array',
+                description: 'Items to change and accept',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    title: { type: 'string' },
+                    body: { type: 'string' },
+                    tags: { type: 'array', items: { type: 'string' } },
+                    importance: { type: 'integer', minimum: 1, maximum: 5 },
+                  },
+                  required: ['id'],
+                },
+              },
+            },
+          },
+        },
+        {
+          name: 'concept_allowlist',
+          description: 'Show or change which global library concepts smart-mode context injection may use in this project (its own concepts are always used)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              add: { type: 'array', items: { type: 'string' }, description: 'Concept IDs to allow (also accepts pending suggestions)' },
+              remove: { type: 'array', items: { type: 'string' }, description: 'Concept IDs to remove (also rejects pending suggestions)' },
+              suggest_for: { type: 'string', description: "Describe the project's work to get pending concept suggestions" },
+            },
+          },
+        },
+
+        // Context Injection
+        {
+          name: 'context_preview',
+          description: 'Preview the memories and concepts that would be injected for a task, ranked with scores and byte sizes',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task: { type: 'string', description: 'What you are working on; drives relevance' },
+              open_files: { type: 'array', items: { type: 'string' }, description: 'Files currently open or being edited (boosts memories on those paths)' },
+              budget_bytes: { type: 'integer', description: 'Maximum size of the selected context in bytes (default: 2048)' },
+              budget_tokens: { type: 'integer', description: 'Maximum size in model tokens (approximate BPE count); overrides budget_bytes' },
+              top_k: { type: 'integer', description: 'Maximum number of items (default: 10)' },
+              mode: { type: 'string', enum: ['smart', 'soft', 'hard'], description: 'smart: memories + allowlisted concepts (default), soft: memories + any relevant concept, hard: memories only' },
+              package: { type: 'string', description: "Monorepo package to draw memories from (default: the package Kratos runs in); '*' uses the whole repository" },
+              explain: { type: 'boolean', description: 'Include a per-component score breakdown (project, path, tags, recency, importance, relevance...) for each item' },
+            },
+            required: ['task'],
+          },
+        },
+        {
+          name: 'context_inject',
+          description: 'Build a single ready-to-paste markdown block of relevant context within the byte or token budget',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task: { type: 'string', description: 'What you are working on; drives relevance' },
+              open_files: { type: 'array', items: { type: 'string' }, description: 'Files currently open or being edited (boosts memories on those paths)' },
+              budget_bytes: { type: 'integer', description: 'Maximum size of the selected context in bytes (default: 2048)' },
+              budget_tokens: { type: 'integer', description: 'Maximum size in model tokens (approximate BPE count); overrides budget_bytes' },
+              top_k: { type: 'integer', description: 'Maximum number of items (default: 10)' },
+              mode: { type: 'string', enum: ['smart', 'soft', 'hard'], description: 'smart: memories + allowlisted concepts (default), soft: memories + any relevant concept, hard: memories only' },
+              package: { type: 'string', description: "Monorepo package to draw memories from (default: the package Kratos runs in); '*' uses the whole repository" },
+            },
+            required: ['task'],
+          },
+        },
+
+        {
+          name: 'context_preset',
+          description: 'Show or switch the ranking preset used by context_preview/context_inject for this session (built-ins: default, debugging, architecture, onboarding; more in .kratos/config.yaml)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              preset: { type: 'string', description: 'Preset to activate; omit to list presets and show the active one' },
+              reset: { type: 'boolean', description: 'Return to the preset configured in .kratos/config.yaml' },
+            },
+          },
+        },
+
+        // Security Tools
+        {
+          name: 'security_scan',
+          description: 'Scan text for PII and secrets',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              text: { type: 'string', description: 'Text to scan' },
+              redact: { type: 'boolean', description: 'Return redacted version' },
+            },
+            required: ['text'],
+          },
+        },
+
+        // Project Management
+        {
+          name: 'project_switch',
+          description: 'Switch to a different project',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_path: { type: 'string', description: 'Path to project directory' },
+            },
+            required: ['project_path'],
+          },
+        },
+        {
+          name: 'project_current',
+          description: 'Get current active project',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'project_list',
+          description: 'List projects with memory counts, disk usage and last access, including data directories whose root is gone',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              include_archived: { type: 'boolean', description: 'Include archived projects (default: false)' },
+              orphaned_only: { type: 'boolean', description: 'Only projects whose root directory no longer exists' },
+            },
+          },
+        },
+        {
+          name: 'project_rename',
+          description: 'Change the display name of a project',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: { type: 'string', description: 'Project ID (proj_...)' },
+              name: { type: 'string', description: 'New name' },
+            },
+            required: ['project_id', 'name'],
+          },
+        },
+        {
+          name: 'project_archive',
+          description: 'Hide a project from project_list without deleting its data; opening the project again unarchives it',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: { type: 'string', description: 'Project ID (proj_...)' },
+              unarchive: { type: 'boolean', description: 'Restore an archived project instead' },
+            },
+            required: ['project_id'],
+          },
+        },
+        {
+          name: 'project_delete',
+          description: 'Delete a project and all its data. The first call returns a confirm_token; call again with it to delete',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: { type: 'string', description: 'Project ID (proj_...)' },
+              confirm_token: { type: 'string', description: 'Token from the previous project_delete call' },
+            },
+            required: ['project_id'],
+          },
+        },
+        {
+          name: 'project_merge',
+          description: 'Fold one project\'s memories into another, skipping duplicates. The source is archived afterwards (or deleted). The first call returns a confirm_token',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source_id: { type: 'string', description: 'Project whose memories are copied' },
+              target_id: { type: 'string', description: 'Project that receives them (default: the active project)' },
+              delete_source: { type: 'boolean', description: 'Delete the source project after merging instead of archiving it' },
+              confirm_token: { type: 'string', description: 'Token from the previous project_merge call' },
+            },
+            required: ['source_id'],
+          },
+        },
+        {
+          name: 'project_relink',
+          description: 'Reattach an existing project store to a checkout that was moved or cloned to a new directory',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: { type: 'string', description: 'ID of the store to reattach (see project_list)' },
+              path: { type: 'string', description: 'Checkout directory (default: the active project root)' },
+              pin: { type: 'boolean', description: 'Also write the ID to <checkout>/.kratos/project.json so every clone resolves to it' },
+            },
+            required: ['project_id'],
+          },
+        },
+        {
+          name: 'change_storage_path',
+          description: 'Dynamically change where Kratos stores data (with automatic migration)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              newPath: { type: 'string', description: 'New storage path (e.g., "/opt/kratos" or ".kratos")' },
+              migrate: { type: 'boolean', description: 'Migrate existing data to new location (default: true)' },
+              backup: { type: 'boolean', description: 'Create backup before migration (default: true)' },
+            },
+            required: ['newPath'],
+          },
+        },
+
+        // System Management
+        {
+          name: 'system_status',
+          description: 'Get system status and statistics',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
         },
       ],
     }));
@@ -303,7 +1198,8 @@ class KratosProtocolServer {
       const { name, arguments: args } = request.params;
 
       // Ensure project is initialized for project-specific operations
-      if (name.startsWith('memory_') || name.startsWith('context_') || name.startsWith('prd_')) {
+      if (name.startsWith('memory_') || name.startsWith('context_') || name.startsWith('concept_') || name.startsWith('prd_') ||
+          (name.startsWith('project_') && name !== 'project_switch')) {
         const project = this.projectManager.getCurrentProject();
         if (!project) {
           await this.initializeProject();
@@ -321,14 +1217,139 @@ class KratosProtocolServer {
       try {
         switch (name) {
           // Memory operations
-          case 'memory_save':
-            const saveResult = this.memoryDb!.save(args as any);
+          case 'memory_save': {
+            const saveHead = await this.gitContext();
+            const saveResult = this.memoryDb!.save({
+              ...this.withPackageTag(args as any),
+              branch: saveHead.branch,
+              commit_sha: saveHead.commit
+            });
+            this.recordPathSnapshots(saveResult);
+            const saveConflicts = this.detectConflicts({
+              id: saveResult.id,
+              kind: 'memory',
+              text: `${saveResult.summary}\n${saveResult.text}`,
+              tags: saveResult.tags
+            });
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(saveConflicts.length > 0 ? {
+                  ...saveResult,
+                  conflicts: saveConflicts,
+                  _hint: this.conflictHint(saveConflicts)
+                } : saveResult, null, 2)
+              }]
+            };
+          }
+
+          case 'memory_update': {
+            const { id: updateId, expected_updated_at, ...patch } = (args || {}) as any;
+            const updateResult = this.memoryDb!.update(updateId, patch, { expected_updated_at });
+            if (updateResult.ok && (patch.paths !== undefined || patch.text !== undefined)) {
+              // A rewritten memory describes the files as they are now
+              this.recordPathSnapshots(updateResult.memory);
+            }
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(updateResult.ok ? updateResult.memory : {
+                  error: updateResult.message,
+                  reason: updateResult.reason,
+                  current_updated_at: updateResult.current?.updated_at,
+                  _hint: updateResult.reason === 'conflict'
+                    ? 'Fetch the memory with memory_get, merge your changes and retry with its updated_at'
+                    : undefined
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'memory_history': {
+            const history = this.memoryDb!.getHistory(args?.id as string);
+            if (!history) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    error: `Memory not found: ${args?.id}`
+                  }, null, 2)
+                }]
+              };
+            }
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  id: args?.id,
+                  revisions: history.length,
+                  history: history.map(({ text, ...rev }) => (args?.include_text ? { ...rev, text } : rev)),
+                  _hint: 'Use memory_revert with a revision number to restore it'
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'memory_revert': {
+            const revertResult = this.memoryDb!.revert(
+              args?.id as string,
+              args?.revision as number,
+              { expected_updated_at: args?.expected_updated_at as number | undefined }
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(revertResult.ok ? revertResult.memory : {
+                  error: revertResult.message,
+                  reason: revertResult.reason,
+                  current_updated_at: revertResult.current?.updated_at
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'memory_link': {
+            const linkResult = this.memoryDb!.link(
+              args?.source_id as string,
+              args?.target_id as string,
+              (args?.type as any) || 'relates_to',
+              args?.note as string | undefined
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(linkResult, null, 2)
+              }]
+            };
+          }
+
+          case 'memory_unlink': {
+            const unlinkResult = this.memoryDb!.unlink(
+              args?.source_id as string,
+              args?.target_id as string,
+              args?.type as any
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(unlinkResult, null, 2)
+              }]
+            };
+          }
+
+          case 'memory_links': {
+            const graph = this.memoryDb!.traverse(args?.id as string, {
+              depth: args?.depth as number | undefined,
+              types: args?.types as any,
+              direction: args?.direction as any
+            });
             return {
               content: [{
                 type: 'text',
-                text: JSON.stringify(saveResult, null, 2)
+                text: JSON.stringify(graph || { error: `Memory not found: ${args?.id}` }, null, 2)
               }]
             };
+          }
 
           case 'memory_search':
             // Additional safety check for database
@@ -347,55 +1368,55 @@ class KratosProtocolServer {
             }
 
             const scope = (args as any)?.scope || 'project';
-            const projectInfo = await this.projectManager.detectProject(process.cwd());
+            const projectInfo = this.projectManager.getCurrentProject()!;
+            const searchArgs = {
+              ...(args as any),
+              package: this.packageScope((args as any)?.package),
+              ...await this.branchScope((args as any)?.branch)
+            };
+            const conceptHits = scope === 'project'
+              ? []
+              : this.searchConcepts((args as any)?.q || '', (args as any)?.k || 10);
+            const projectLabel = searchArgs.package ? `${projectInfo.name}/${searchArgs.package}` : projectInfo.name;
+            const scopeLabel = scope === 'project'
+              ? projectLabel
+              : scope === 'global' ? 'concepts' : `${projectLabel} + concepts`;
 
             if ((args as any)?.debug) {
               // Use enhanced search with debug info
-              const enhancedResults = this.memoryDb.searchWithDebug(args as any);
+              const enhancedResults = scope === 'global' ? null : this.memoryDb.searchWithDebug(searchArgs);
+              const debugResults = this.withStaleness(this.withConflicts(this.withConceptLinks(
+                this.mergeScopedResults(enhancedResults?.results || [], conceptHits, args as any)
+              )));
               return {
                 content: [{
                   type: 'text',
                   text: JSON.stringify({
-                    search_scope: `${scope} (${scope === 'project' ? projectInfo.name : 'global concepts'})`,
-                    count: enhancedResults.results.length,
-                    results: enhancedResults.results.map(r => ({
-                      id: r.memory.id,
-                      summary: r.memory.summary,
-                      snippet: r.snippet,
-                      score: r.score,
-                      tags: r.memory.tags,
-                      paths: r.memory.paths,
-                      importance: r.memory.importance,
-                      created_at: r.memory.created_at,
-                      _hint: 'Use memory_get with id to retrieve full text'
-                    })),
-                    debug: {
+                    search_scope: `${scope} (${scopeLabel})`,
+                    count: debugResults.length,
+                    results: debugResults,
+                    debug: enhancedResults ? {
                       ...enhancedResults.debug_info,
+                      concept_hits: scope === 'project' ? undefined : conceptHits.length,
                       suggestions: this.generateSearchSuggestions(enhancedResults.debug_info)
-                    }
+                    } : { concept_hits: conceptHits.length }
                   }, null, 2)
                 }]
               };
             } else {
               // Regular search
-              const searchResults = this.memoryDb.search(args as any);
+              const searchResults = this.withStaleness(this.withConflicts(this.withConceptLinks(this.mergeScopedResults(
+                scope === 'global' ? [] : this.memoryDb.search(searchArgs),
+                conceptHits,
+                args as any
+              ))));
               return {
                 content: [{
                   type: 'text',
                   text: JSON.stringify({
-                    search_scope: `${scope} (${scope === 'project' ? projectInfo.name : 'global concepts'})`,
+                    search_scope: `${scope} (${scopeLabel})`,
                     count: searchResults.length,
-                    results: searchResults.map(r => ({
-                      id: r.memory.id,
-                      summary: r.memory.summary,
-                      snippet: r.snippet,
-                      score: r.score,
-                      tags: r.memory.tags,
-                      paths: r.memory.paths,
-                      importance: r.memory.importance,
-                      created_at: r.memory.created_at,
-                      _hint: 'Use memory_get with id to retrieve full text'
-                    }))
+                    results: searchResults
                   }, null, 2)
                 }]
               };
@@ -408,7 +1429,7 @@ class KratosProtocolServer {
                 type: 'text',
                 text: JSON.stringify({
                   count: recentResults.length,
-                  memories: recentResults.map(m => ({
+                  memories: this.withConceptLinks(recentResults.map(m => ({
                     id: m.id,
                     summary: m.summary,
                     // Return preview only, not full text
@@ -419,7 +1440,7 @@ class KratosProtocolServer {
                     created_at: m.created_at,
                     text_length: m.text.length,
                     _hint: 'Use memory_get with id to retrieve full text'
-                  }))
+                  })))
                 }, null, 2)
               }]
             };
@@ -436,10 +1457,11 @@ class KratosProtocolServer {
                 }]
               };
             }
+            this.memoryDb!.recordUsage([memory.id], 'retrieved');
             return {
               content: [{
                 type: 'text',
-                text: JSON.stringify(memory, null, 2)
+                text: JSON.stringify(this.withStaleness(this.withConflicts(this.withConceptLinks([memory])))[0], null, 2)
               }]
             };
 
@@ -447,6 +1469,7 @@ class KratosProtocolServer {
             const ids = (args as any)?.ids || [];
             const memories = this.memoryDb!.getMultiple(ids);
             const found = Object.values(memories).filter(m => m !== null).length;
+            this.memoryDb!.recordUsage(Object.keys(memories).filter(id => memories[id] !== null), 'retrieved');
             return {
               content: [{
                 type: 'text',
@@ -459,48 +1482,85 @@ class KratosProtocolServer {
               }]
             };
 
-          case 'memory_ask':
+          case 'memory_ask': {
             const question = (args as any)?.question || '';
             const limit = (args as any)?.limit || 10;
 
             // Parse natural language query
             const parsed = this.parseNaturalLanguageQuery(question);
             const nlSearchQuery = parsed.searchTerms.join(' ');
+            const timeWindow = parsed.timeframe
+              ? { created_after: parsed.timeframe.after, created_before: parsed.timeframe.before }
+              : {};
+
+            const understoodAs = {
+              search_terms: parsed.searchTerms,
+              intent: parsed.intent,
+              extracted_tags: parsed.tags,
+              timeframe: parsed.timeframe ? {
+                name: parsed.timeframe.label,
+                from: new Date(parsed.timeframe.after).toISOString(),
+                to: parsed.timeframe.before ? new Date(parsed.timeframe.before).toISOString() : 'now'
+              } : 'any'
+            };
+
+            // Nothing left to search for ("what did we save yesterday?"): list the window
+            if (!nlSearchQuery.trim()) {
+              const recent = this.memoryDb!.getRecent({ k: limit, ...timeWindow });
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    question: question,
+                    understood_as: understoodAs,
+                    answer_type: 'list',
+                    count: recent.length,
+                    results: recent.map(m => ({
+                      id: m.id,
+                      summary: m.summary,
+                      tags: m.tags,
+                      paths: m.paths,
+                      importance: m.importance,
+                      created_at: m.created_at
+                    }))
+                  }, null, 2)
+                }]
+              };
+            }
 
             // Build search parameters
             const searchParams: any = {
               q: nlSearchQuery,
-              k: limit,
+              // Listings are re-sorted by date, so fetch a wider candidate set first
+              k: parsed.intent === 'list' ? Math.max(limit * 5, 50) : limit,
               tags: parsed.tags.length > 0 ? parsed.tags : undefined,
+              package: this.packageScope((args as any)?.package),
+              boost_branch: (await this.gitContext()).branch ?? undefined,
+              structured: false,
+              ...timeWindow,
               debug: true // Always use debug for natural language queries
             };
 
             // Execute search
             const nlResults = this.memoryDb!.searchWithDebug(searchParams);
 
+            let nlMatches = nlResults.results;
+            if (parsed.intent === 'list') {
+              nlMatches = [...nlMatches]
+                .sort((a, b) => b.memory.created_at - a.memory.created_at)
+                .slice(0, limit);
+            }
+
             return {
               content: [{
                 type: 'text',
                 text: JSON.stringify({
                   question: question,
-                  understood_as: {
-                    search_terms: parsed.searchTerms,
-                    intent: parsed.intent,
-                    extracted_tags: parsed.tags,
-                    timeframe: parsed.timeframe || 'any'
-                  },
-                  count: nlResults.results.length,
-                  results: nlResults.results.map(r => ({
-                    id: r.memory.id,
-                    summary: r.memory.summary,
-                    snippet: r.snippet,
-                    score: r.score,
-                    tags: r.memory.tags,
-                    paths: r.memory.paths,
-                    importance: r.memory.importance,
-                    created_at: r.memory.created_at,
-                    _hint: 'Use memory_get with id to retrieve full text'
-                  })),
+                  understood_as: understoodAs,
+                  answer_type: parsed.intent === 'list' ? 'list' : parsed.intent === 'explain' ? 'explanation' : 'search',
+                  explanation: parsed.intent === 'explain' ? this.buildExplanation(nlMatches) : undefined,
+                  count: nlMatches.length,
+                  results: this.withStaleness(this.withConflicts(this.withConceptLinks(nlMatches.map(r => this.formatSearchResult(r))))),
                   search_debug: {
                     ...nlResults.debug_info,
                     natural_language_parsing: 'Query was automatically converted to search parameters'
@@ -508,25 +1568,586 @@ class KratosProtocolServer {
                 }, null, 2)
               }]
             };
+          }
 
-          case 'memory_forget':
-            const forgetResult = this.memoryDb!.forget(args?.id as string);
+          case 'memory_feedback': {
+            const helpful = (args as any)?.helpful;
+            if (typeof helpful !== 'boolean') {
+              throw new Error('helpful must be true or false');
+            }
+            const feedbackResult = this.memoryDb!.recordFeedback(args?.id as string, helpful);
             return {
               content: [{
                 type: 'text',
-                text: JSON.stringify(forgetResult, null, 2)
+                text: JSON.stringify(feedbackResult, null, 2)
               }]
             };
+          }
 
-          // Security operations
-          case 'security_scan':
-            const scanResult = this.piiDetector.detect(args?.text as string);
-            if (args?.redact) {
+          case 'memory_staleness': {
+            const { action = 'check', ids, threshold, limit = 20 } = (args || {}) as {
+              action?: 'check' | 'reverify' | 'expire';
+              ids?: string[];
+              threshold?: number;
+              limit?: number;
+            };
+            if (action !== 'check' && (!Array.isArray(ids) || ids.length === 0)) {
+              throw new Error(`ids are required to ${action} memories`);
+            }
+
+            if (action === 'reverify') {
+              const memories = this.memoryDb!.getMultiple(ids!);
+              const reverified = ids!.filter(id => memories[id]);
+              reverified.forEach(id => this.recordPathSnapshots(memories[id]!));
+              const missing = ids!.filter(id => !memories[id]);
               return {
                 content: [{
                   type: 'text',
-                  text: JSON.stringify({
-                    hasPII: scanResult.hasPII,
+                  text: JSON.stringify({ ok: true, reverified, missing: missing.length > 0 ? missing : undefined }, null, 2)
+                }]
+              };
+            }
+
+            if (action === 'expire') {
+              const { expired } = this.memoryDb!.expire(ids!);
+              const missing = ids!.filter(id => !expired.includes(id));
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    ok: true,
+                    expired,
+                    missing: missing.length > 0 ? missing : undefined,
+                    _hint: 'Expired memories no longer appear in search (include_expired shows them) and are deleted by the hourly cleanup'
+                  }, null, 2)
+                }]
+              };
+            }
+
+            if (action !== 'check') {
+              throw new Error(`Unknown action '${action}'. Use check, reverify or expire`);
+            }
+
+            const checks = this.checkMemoryPaths(ids, threshold);
+            const staleIds = Array.from(checks.keys()).filter(id => isStale(checks.get(id)!));
+            const staleMemories = this.memoryDb!.getMultiple(staleIds.slice(0, limit));
+            const checkout = this.currentCheckout();
+            const stale = await Promise.all(staleIds.slice(0, limit).map(async id => {
+              const memory = staleMemories[id]!;
+              return {
+                id,
+                summary: memory.summary,
+                updated_at: memory.updated_at,
+                commit_sha: memory.commit_sha,
+                paths: await Promise.all(checks.get(id)!
+                  .filter(check => check.status !== 'unchanged')
+                  .map(async check => ({
+                    ...check,
+                    // Commits that touched the file since the memory was saved
+                    commits_since: checkout && memory.commit_sha
+                      ? await commitsTouching(checkout, memory.commit_sha, check.path) ?? undefined
+                      : undefined
+                  })))
+              };
+            }));
+            const untracked = ids ? undefined : this.memoryDb!.countUntrackedPaths();
+
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  checked: checks.size,
+                  stale_count: staleIds.length,
+                  stale,
+                  untracked: untracked || undefined,
+                  _hint: staleIds.length > 0
+                    ? 'Re-read the files and either correct the memory with memory_update, confirm it with action "reverify", or retire it with action "expire"'
+                    : untracked ? `${untracked} memories with paths have no file snapshots yet; reverify them to start tracking` : undefined
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'memory_promote_branch': {
+            const { branch, into, force } = (args || {}) as { branch?: string; into?: string; force?: boolean };
+            const checkout = this.currentCheckout();
+            const trunk = into || (checkout ? await trunkBranch(checkout) : null);
+            if (!trunk) {
+              throw new Error('Could not tell the trunk branch (no origin/HEAD, main or master); pass into');
+            }
+
+            const branches = this.memoryDb!.getBranches({ exclude: trunk });
+            if (!branch) {
+              const listed = await Promise.all(branches.map(async b => ({
+                ...b,
+                merged: await this.branchMerged(b.branch, b.last_commit, trunk)
+              })));
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    trunk,
+                    branches: listed,
+                    _hint: listed.some(b => b.merged)
+                      ? 'Promote merged branches with memory_promote_branch and a branch name'
+                      : undefined
+                  }, null, 2)
+                }]
+              };
+            }
+
+            if (branch === trunk) {
+              throw new Error(`${branch} is the trunk; nothing to promote`);
+            }
+            const summary = branches.find(b => b.branch === branch);
+            if (!summary) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({ ok: true, branch, into: trunk, promoted: 0, message: `No memories saved on ${branch}` }, null, 2)
+                }]
+              };
+            }
+
+            if (!force) {
+              const merged = await this.branchMerged(branch, summary.last_commit, trunk);
+              if (merged === null) {
+                throw new Error(`Cannot tell whether ${branch} was merged into ${trunk}: the branch is gone and its memories recorded no commit. Pass force: true to promote anyway`);
+              }
+              if (!merged) {
+                throw new Error(`${branch} is not merged into ${trunk}. Pass force: true after a squash or rebase merge`);
+              }
+            }
+
+            const { promoted } = this.memoryDb!.promoteBranch(branch, trunk);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({ ok: true, branch, into: trunk, promoted: promoted.length, ids: promoted }, null, 2)
+              }]
+            };
+          }
+
+          case 'memory_forget':
+            const forgetResult = this.memoryDb!.forget(args?.id as string);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(forgetResult, null, 2)
+              }]
+            };
+
+          // Concepts
+          case 'concept_save': {
+            const conceptArgs = (args || {}) as any;
+            const origin: ConceptOrigin = conceptArgs.scope === 'global' ? 'global' : 'project';
+            const conceptResult = this.conceptStore(origin).save({
+              id: conceptArgs.id,
+              title: conceptArgs.title,
+              body: conceptArgs.body,
+              tags: conceptArgs.tags,
+              importance: conceptArgs.importance,
+              relatedTo: conceptArgs.related_to
+            });
+            const savedConcept = this.conceptStore(origin).get(conceptResult.id)!;
+            const conceptConflicts = this.detectConflicts({
+              id: savedConcept.id,
+              kind: 'concept',
+              text: `${savedConcept.title}\n${savedConcept.body}`,
+              tags: savedConcept.tags
+            }, origin);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  ...savedConcept,
+                  origin,
+                  conflicts: conceptConflicts.length > 0 ? conceptConflicts : undefined,
+                  _hint: this.conflictHint(conceptConflicts)
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'concept_search': {
+            const { q = '', k = 10, allowlisted_only, include_related, scope = 'all' } = (args || {}) as any;
+            const searchProjectId = this.projectManager.getCurrentProject()!.id;
+            const concepts = ConceptStore.searchAll(searchProjectId, {
+              q,
+              k,
+              allowlistedOnly: allowlisted_only,
+              includeRelated: include_related,
+              origin: scope === 'all' ? undefined : scope
+            });
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  count: concepts.length,
+                  results: concepts.map(c => {
+                    const conflicts = this.conceptStore(c.origin).getConflicts(c.concept.id, searchProjectId);
+                    return {
+                      id: c.concept.id,
+                      origin: c.origin,
+                      title: c.concept.title,
+                      snippet: c.snippet || c.concept.body.substring(0, 100) + (c.concept.body.length > 100 ? '...' : ''),
+                      score: c.score,
+                      tags: c.concept.tags,
+                      importance: c.concept.importance,
+                      related_to: c.relatedTo,
+                      conflicts: conflicts.length > 0 ? conflicts : undefined,
+                      _hint: conflicts.length > 0
+                        ? this.conflictHint(conflicts)
+                        : 'Use concept_get with id to retrieve the full concept'
+                    };
+                  })
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'concept_get': {
+            const found = this.findConcept(args?.id as string, (args as any)?.scope);
+            const relationships = found ? this.conceptStore(found.origin).getRelationships(found.concept.id) : [];
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(
+                  found ? { ...found.concept, origin: found.origin, relationships } : { error: `Concept not found: ${args?.id}` },
+                  null,
+                  2
+                )
+              }]
+            };
+          }
+
+          case 'concept_delete': {
+            const found = this.findConcept(args?.id as string, (args as any)?.scope);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(
+                  found
+                    ? { ...this.conceptStore(found.origin).delete(found.concept.id), origin: found.origin }
+                    : { ok: false, message: `Concept not found: ${args?.id}` },
+                  null,
+                  2
+                )
+              }]
+            };
+          }
+
+          case 'concept_link': {
+            const { id, scope, refresh } = (args || {}) as { id: string; scope?: ConceptOrigin; refresh?: boolean };
+            const found = this.findConcept(id, scope);
+            if (!found) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({ error: `Concept not found: ${id}` }, null, 2)
+                }]
+              };
+            }
+
+            const linkResult = this.conceptStore(found.origin).linkToProject(
+              found.concept.id,
+              this.projectManager.getCurrentProject()!.id,
+              this.memoryDb!,
+              { refresh }
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  concept_id: found.concept.id,
+                  origin: found.origin,
+                  memory_id: linkResult.memoryId,
+                  action: linkResult.action,
+                  memory: this.withConceptLinks([this.memoryDb!.get(linkResult.memoryId)!])[0]
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'concept_graph': {
+            const graphArgs = (args || {}) as {
+              id?: string;
+              tag?: string;
+              scope?: ConceptOrigin;
+              depth?: number;
+              types?: RelationshipType[];
+              format?: 'json' | 'dot' | 'mermaid';
+            };
+            if (!graphArgs.id && !graphArgs.tag) {
+              throw new Error('Provide either id or tag');
+            }
+
+            const origin = graphArgs.id
+              ? this.findConcept(graphArgs.id, graphArgs.scope)?.origin
+              : graphArgs.scope || 'project';
+            const graph = origin
+              ? this.conceptStore(origin).traverse({ id: graphArgs.id, tag: graphArgs.tag }, { depth: graphArgs.depth, types: graphArgs.types })
+              : null;
+
+            if (!graph) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    error: graphArgs.id ? `Concept not found: ${graphArgs.id}` : `No concepts tagged '${graphArgs.tag}'`
+                  }, null, 2)
+                }]
+              };
+            }
+
+            const rendered = graphArgs.format === 'dot' ? toDot(graph)
+              : graphArgs.format === 'mermaid' ? toMermaid(graph)
+              : JSON.stringify({ origin, ...graph }, null, 2);
+            return {
+              content: [{
+                type: 'text',
+                text: rendered
+              }]
+            };
+          }
+
+          case 'concept_pack_export': {
+            const exportArgs = (args || {}) as any;
+            const pack = exportPack(this.conceptStore(exportArgs.scope === 'global' ? 'global' : 'project'), {
+              ids: exportArgs.ids,
+              tags: exportArgs.tags,
+              name: exportArgs.name,
+              description: exportArgs.description
+            });
+            const format = exportArgs.format === 'yaml' ? 'yaml' : 'json';
+            const serialized = serializePack(pack, format);
+
+            if (exportArgs.path) {
+              const packPath = await this.resolveProjectPath(exportArgs.path);
+              await fs.outputFile(packPath, serialized);
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    path: packPath,
+                    format,
+                    concepts: pack.concepts.length,
+                    relationships: pack.relationships.length
+                  }, null, 2)
+                }]
+              };
+            }
+
+            return {
+              content: [{
+                type: 'text',
+                text: serialized
+              }]
+            };
+          }
+
+          case 'concept_pack_import': {
+            const importArgs = (args || {}) as { path?: string; content?: string; scope?: ConceptOrigin; on_conflict?: ConflictStrategy };
+            if (!importArgs.path && !importArgs.content) {
+              throw new Error('Provide either path or content');
+            }
+
+            const text = importArgs.path
+              ? await fs.readFile(await this.resolveProjectPath(importArgs.path), 'utf8')
+              : importArgs.content!;
+            const pack = parsePack(text);
+            const origin: ConceptOrigin = importArgs.scope === 'global' ? 'global' : 'project';
+            const report = importPack(this.conceptStore(origin), pack, importArgs.on_conflict || 'skip');
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({ pack: pack.name, version: pack.version, origin, ...report }, null, 2)
+              }]
+            };
+          }
+
+          case 'concept_review': {
+            const { accept = [], reject = [], edit = [] } = (args || {}) as {
+              accept?: string[];
+              reject?: string[];
+              edit?: Array<{ id: string; title?: string; body?: string; tags?: string[]; importance?: number }>;
+            };
+            const projectId = this.projectManager.getCurrentProject()!.id;
+            const outcome = { accepted: [] as string[], rejected: [] as string[], edited: [] as string[], not_found: [] as string[] };
+
+            const acceptItem = (id: string, item: { kind: 'discovered' | 'suggestion'; origin: ConceptOrigin }) =>
+              item.kind === 'suggestion'
+                ? this.conceptStore('global').acceptSuggestion(projectId, id)
+                : this.conceptStore(item.origin).acceptDiscovered(id);
+
+            for (const changes of edit) {
+              const item = this.findReviewItem(changes.id);
+              if (!item) {
+                outcome.not_found.push(changes.id);
+                continue;
+              }
+              const store = this.conceptStore(item.origin);
+              const current = store.get(changes.id)!;
+              store.save({
+                id: current.id,
+                title: changes.title ?? current.title,
+                body: changes.body ?? current.body,
+                tags: changes.tags ?? current.tags,
+                importance: changes.importance ?? current.importance
+              });
+              acceptItem(changes.id, item);
+              outcome.edited.push(changes.id);
+            }
+
+            for (const id of accept) {
+              const item = this.findReviewItem(id);
+              if (item && acceptItem(id, item)) {
+                outcome.accepted.push(id);
+              } else {
+                outcome.not_found.push(id);
+              }
+            }
+
+            for (const id of reject) {
+              const item = this.findReviewItem(id);
+              const rejected = item && (item.kind === 'suggestion'
+                ? this.conceptStore('global').rejectSuggestion(projectId, id)
+                : this.conceptStore(item.origin).rejectDiscovered(id));
+              if (rejected) {
+                outcome.rejected.push(id);
+              } else {
+                outcome.not_found.push(id);
+              }
+            }
+
+            const queue = this.reviewQueue();
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  accepted: outcome.accepted.length > 0 ? outcome.accepted : undefined,
+                  rejected: outcome.rejected.length > 0 ? outcome.rejected : undefined,
+                  edited: outcome.edited.length > 0 ? outcome.edited : undefined,
+                  not_found: outcome.not_found.length > 0 ? outcome.not_found : undefined,
+                  pending: queue.length,
+                  queue
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'concept_allowlist': {
+            const { add, remove, suggest_for } = (args || {}) as { add?: string[]; remove?: string[]; suggest_for?: string };
+            const projectId = this.projectManager.getCurrentProject()!.id;
+            const library = this.conceptStore('global');
+            const newSuggestions = suggest_for ? library.suggestForProject(projectId, suggest_for) : [];
+            const allowlistResult = library.updateAllowlist({
+              projectId,
+              add,
+              remove,
+              list: true
+            });
+            const notFound = (add || []).filter(id => !library.get(id));
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  ...allowlistResult,
+                  new_suggestions: suggest_for
+                    ? newSuggestions.map(c => ({ id: c.id, title: c.title, tags: c.tags }))
+                    : undefined,
+                  not_found: notFound.length > 0 ? notFound : undefined,
+                  _hint: allowlistResult.suggested?.length ? 'Accept suggestions with add, reject them with remove' : undefined
+                }, null, 2)
+              }]
+            };
+          }
+
+          // Context injection
+          case 'context_preview': {
+            const preview = await this.createContextBroker().preview({
+              ...(args as any),
+              package: this.packageScope((args as any)?.package),
+              branch: (await this.gitContext()).branch ?? undefined
+            });
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  count: preview.injections.length,
+                  budget_used: preview.budgetUsed,
+                  budget_limit: preview.budgetLimit,
+                  budget_unit: preview.budgetUnit,
+                  top_k: preview.topK,
+                  profile: preview.profile,
+                  injections: preview.injections.map(inj => ({
+                    id: inj.id,
+                    type: inj.type,
+                    summary: inj.summary,
+                    score: Number(inj.score.toFixed(3)),
+                    byte_size: inj.byteSize,
+                    token_count: inj.tokenCount,
+                    truncated: inj.truncated,
+                    score_breakdown: (args as any)?.explain ? this.roundBreakdown(inj.scoreBreakdown) : undefined,
+                    source: inj.source
+                  })),
+                  stats: preview.stats,
+                  _hint: 'Use context_inject to get these items as one markdown block'
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'context_inject': {
+            const injection = await this.createContextBroker().inject({
+              ...(args as any),
+              package: this.packageScope((args as any)?.package),
+              branch: (await this.gitContext()).branch ?? undefined
+            });
+            return {
+              content: [{
+                type: 'text',
+                text: injection.markdown || 'No relevant context found for this task.'
+              }]
+            };
+          }
+
+          case 'context_preset': {
+            const { preset, reset } = (args || {}) as { preset?: string; reset?: boolean };
+            if (reset) {
+              this.rankingPreset = null;
+            } else if (preset) {
+              // Validate before switching so a typo keeps the current preset
+              this.createContextBroker().usePreset(preset);
+              this.rankingPreset = preset;
+            }
+
+            const broker = this.createContextBroker();
+            const rules = broker.getRules();
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  active: rules.name,
+                  description: rules.description,
+                  weights: rules.weights,
+                  mmr_lambda: rules.mmr_lambda,
+                  dedupe_threshold: rules.dedupe_threshold,
+                  available: listPresets(broker.getRankingConfig())
+                }, null, 2)
+              }]
+            };
+          }
+
+          // Security operations
+          case 'security_scan':
+            const scanResult = this.piiDetector.detect(args?.text as string);
+            if (args?.redact) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    hasPII: scanResult.hasPII,
                     hasSecrets: scanResult.hasSecrets,
                     redactedText: scanResult.redactedText,
                     findings: scanResult.findings
@@ -546,8 +2167,11 @@ class KratosProtocolServer {
           case 'project_switch':
             const newProject = await this.projectManager.switchProject(args?.project_path as string);
 
-            // Re-initialize memory database for new project
+            // Re-initialize memory database for new project, releasing the old connection and timer
+            this.memoryDb?.close();
             this.memoryDb = new MemoryDatabase(newProject.root, newProject.id);
+            // Presets are defined per project config
+            this.rankingPreset = null;
 
             return {
               content: [{
@@ -556,16 +2180,200 @@ class KratosProtocolServer {
               }]
             };
 
-          case 'project_current':
+          case 'project_current': {
             const current = this.projectManager.getCurrentProject();
+            const lines = current ? [`Current project: ${current.name}`, `Root: ${current.root}`, `ID: ${current.id}`] : [];
+            const checkout = this.projectManager.getCurrentCheckout();
+            if (current && checkout && path.resolve(checkout) !== path.resolve(current.root)) {
+              lines.push(`Worktree: ${checkout}`);
+            }
+            const head = current ? await this.gitContext() : null;
+            if (head?.branch || head?.commit) {
+              lines.push(`Branch: ${head.branch ?? '(detached)'}${head.commit ? ` @ ${head.commit.substring(0, 12)}` : ''}`);
+            }
+            if (current?.workspace) {
+              const currentPackage = this.projectManager.getCurrentPackage();
+              lines.push(`Workspace: ${current.workspace.kinds.join(', ')} (${current.workspace.packages.length} packages)`);
+              lines.push(`Package: ${currentPackage ? `${currentPackage.name} (${currentPackage.path})` : 'none (repository root)'}`);
+              lines.push(`Packages: ${current.workspace.packages.map(p => p.name).join(', ')}`);
+            }
+            const nested = current ? this.projectManager.findNestedProjects(current) : [];
+            if (nested.length > 0) {
+              lines.push(`Separate projects inside this one: ${nested.map(p => `${p.name} (${p.id})`).join(', ')}. Fold them in with project_merge`);
+            }
             return {
               content: [{
                 type: 'text',
-                text: current ? 
-                  `Current project: ${current.name}\nRoot: ${current.root}\nID: ${current.id}` :
-                  'No active project'
+                text: current ? lines.join('\n') : 'No active project'
               }]
             };
+          }
+
+          case 'project_list': {
+            const { include_archived, orphaned_only } = (args || {}) as any;
+            const activeId = this.projectManager.getCurrentProject()?.id;
+            const projects = (await this.projectManager.describeProjects({ includeArchived: include_archived }))
+              .filter(p => !orphaned_only || p.orphaned);
+            const orphaned = projects.filter(p => p.orphaned).length;
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  count: projects.length,
+                  total_disk_usage_bytes: projects.reduce((sum, p) => sum + p.diskUsage, 0),
+                  projects: projects.map(p => ({
+                    id: p.id,
+                    name: p.name,
+                    root: p.root || null,
+                    memories: p.memoryCount,
+                    disk_usage_bytes: p.diskUsage,
+                    last_accessed: p.lastAccessed,
+                    created_at: p.createdAt,
+                    active: p.id === activeId || undefined,
+                    archived: p.archived || undefined,
+                    orphaned: p.orphaned || undefined,
+                    registered: p.registered ? undefined : false
+                  })),
+                  _hint: orphaned > 0
+                    ? `${orphaned} project(s) have no root directory on disk. Fold them into a live project with project_merge or remove them with project_delete`
+                    : undefined
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'project_rename': {
+            const renamed = await this.projectManager.renameProject(args?.project_id as string, (args?.name as string) || '');
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({ ok: true, project: renamed }, null, 2)
+              }]
+            };
+          }
+
+          case 'project_archive': {
+            const archived = await this.projectManager.setArchived(args?.project_id as string, !(args as any)?.unarchive);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({ ok: true, project: archived }, null, 2)
+              }]
+            };
+          }
+
+          case 'project_delete': {
+            const { project_id: deleteId, confirm_token } = (args || {}) as any;
+            if (deleteId === this.projectManager.getCurrentProject()?.id) {
+              throw new Error('Cannot delete the active project; switch to another project first');
+            }
+            const target = await this.describeProject(deleteId);
+
+            if (!confirm_token) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    confirm_required: true,
+                    confirm_token: this.issueConfirmation('project_delete', deleteId),
+                    expires_in_seconds: CONFIRMATION_TTL_MS / 1000,
+                    project: target,
+                    _hint: `This permanently deletes ${target.memories ?? 'all'} memories and ${target.disk_usage_bytes} bytes of data. Call project_delete again with confirm_token to proceed`
+                  }, null, 2)
+                }]
+              };
+            }
+
+            this.consumeConfirmation(confirm_token, 'project_delete', deleteId);
+            const deleted = await this.removeProject(deleteId);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({ ok: true, deleted: target, freed_bytes: deleted.freedBytes }, null, 2)
+              }]
+            };
+          }
+
+          case 'project_merge': {
+            const { source_id, delete_source, confirm_token } = (args || {}) as any;
+            const targetId: string = (args as any)?.target_id || this.projectManager.getCurrentProject()!.id;
+            if (source_id === targetId) {
+              throw new Error('Source and target must be different projects');
+            }
+            if (source_id === this.projectManager.getCurrentProject()?.id) {
+              throw new Error('Cannot merge away the active project; switch to the target project first');
+            }
+            const source = await this.describeProject(source_id);
+            const target = await this.describeProject(targetId);
+            const mergeKey = `${source_id}>${targetId}:${delete_source ? 'delete' : 'archive'}`;
+
+            if (!confirm_token) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    confirm_required: true,
+                    confirm_token: this.issueConfirmation('project_merge', mergeKey),
+                    expires_in_seconds: CONFIRMATION_TTL_MS / 1000,
+                    source,
+                    target,
+                    _hint: `Copies up to ${source.memories ?? 'all'} memories into ${target.name}, then ${delete_source ? 'deletes' : 'archives'} ${source.name}. Call project_merge again with confirm_token to proceed`
+                  }, null, 2)
+                }]
+              };
+            }
+
+            this.consumeConfirmation(confirm_token, 'project_merge', mergeKey);
+            const mergeReport = await this.mergeProjects(source_id, targetId);
+            if (delete_source) {
+              await this.removeProject(source_id);
+            } else {
+              await this.projectManager.setArchived(source_id, true);
+            }
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  ok: true,
+                  source: source_id,
+                  target: targetId,
+                  ...mergeReport,
+                  source_action: delete_source ? 'deleted' : 'archived'
+                }, null, 2)
+              }]
+            };
+          }
+
+          case 'project_relink': {
+            const { project_id: relinkId, pin } = (args || {}) as any;
+            const checkout = path.resolve((args as any)?.path || this.projectManager.getCurrentProject()?.root || process.cwd());
+            const previousActive = this.projectManager.getCurrentProject()?.id;
+            const relinked = await this.projectManager.relinkProject(relinkId, checkout, { pin });
+
+            // The checkout we are running in now belongs to the relinked store
+            const active = this.projectManager.getCurrentProject();
+            if (active && active.id !== previousActive) {
+              this.memoryDb?.close();
+              this.memoryDb = new MemoryDatabase(active.root, active.id);
+              this.rankingPreset = null;
+            }
+
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  ok: true,
+                  project: relinked.project,
+                  previous_root: relinked.previousRoot || null,
+                  detached: relinked.detached.length > 0 ? relinked.detached : undefined,
+                  pin_file: relinked.pinFile,
+                  _hint: relinked.detached.length > 0
+                    ? `Detached ${relinked.detached.join(', ')} from this checkout. Fold them in with project_merge or remove them with project_delete`
+                    : undefined
+                }, null, 2)
+              }]
+            };
+          }
 
           case 'change_storage_path':
             const { newPath, migrate = true, backup = true } = (args || {}) as {
@@ -606,6 +2414,20 @@ class KratosProtocolServer {
             );
         }
       } catch (error) {
+        if (error instanceof QueryParseError) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                error: error.message,
+                position: error.position,
+                query: error.query,
+                _hint: 'Fix the query at the marked position, or pass structured: false to search it as plain text'
+              }, null, 2)
+            }]
+          };
+        }
+
         logger.error(`Tool error (${name}):`, error);
         return {
           content: [{
@@ -701,6 +2523,7 @@ class KratosProtocolServer {
         status.stats = {
           recentMemoryCount: recentMemories.length,
           lastMemoryCreated: recentMemories[0]?.created_at || null,
+          usage: this.memoryDb.getUsageStats(),
         };
       } catch (error) {
         // Database might not be initialized yet or table doesn't exist
@@ -0,0 +1,70 @@
+import { ConceptGraph, RelationshipType } from './concept-store.js';
+
+/**
+ * Render concept subgraphs for docs. 'related' edges are symmetric and drawn
+ * without arrows; 'conflicts' edges are dashed.
+ */
+
+const DOT_EDGE_STYLE: Record<RelationshipType, string> = {
+  related: 'dir=none',
+  prerequisite: '',
+  extends: 'arrowhead=empty',
+  conflicts: 'style=dashed, color=red'
+};
+
+export function toDot(graph: ConceptGraph): string {
+  const roots = new Set(graph.roots);
+  const lines = [
+    'digraph concepts {',
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded];'
+  ];
+
+  for (const node of graph.nodes) {
+    const rootStyle = roots.has(node.id) ? ', penwidth=2' : '';
+    lines.push(`  ${dotString(node.id)} [label=${dotString(node.title)}${rootStyle}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const style = DOT_EDGE_STYLE[edge.relationship_type] || '';
+    const attrs = [`label=${dotString(edge.relationship_type)}`, style].filter(Boolean).join(', ');
+    lines.push(`  ${dotString(edge.concept_id)} -> ${dotString(edge.related_id)} [${attrs}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function toMermaid(graph: ConceptGraph): string {
+  // Concept IDs may contain characters Mermaid rejects, so nodes get positional IDs
+  const nodeIds = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const lines = ['graph LR'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${nodeIds.get(node.id)}["${mermaidLabel(node.title)}"]`);
+  }
+
+  for (const edge of graph.edges) {
+    const from = nodeIds.get(edge.concept_id);
+    const to = nodeIds.get(edge.related_id);
+    const arrow = edge.relationship_type === 'related' ? '---'
+      : edge.relationship_type === 'conflicts' ? '-.->'
+      : '-->';
+    lines.push(`  ${from} ${arrow}|${edge.relationship_type}| ${to}`);
+  }
+
+  if (graph.roots.length > 0) {
+    lines.push('  classDef root stroke-width:3px');
+    lines.push(`  class ${graph.roots.map(id => nodeIds.get(id)).join(',')} root`);
+  }
+
+  return lines.join('\n');
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function mermaidLabel(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
\ No newline at end of file
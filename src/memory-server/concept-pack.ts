@@ -0,0 +1,219 @@
+import yaml from 'js-yaml';
+import { ConceptStore, RelationshipType } from './concept-store.js';
+import { MCPLogger as Logger } from '../utils/mcp-logger.js';
+
+const logger = new Logger('ConceptPack');
+
+/**
+ * Concept packs share curated concepts between stores and teams:
+ *
+ *   format: kratos-concept-pack
+ *   version: 1
+ *   name: auth-patterns
+ *   concepts:
+ *     - { id: jwt-auth-v2, title: ..., body: ..., tags: [jwt, auth], importance: 5 }
+ *   relationships:
+ *     - { from: jwt-auth-v2, to: rate-limiter-pattern, type: related, strength: 0.5 }
+ */
+export const CONCEPT_PACK_FORMAT = 'kratos-concept-pack';
+export const CONCEPT_PACK_VERSION = 1;
+
+export interface ConceptPack {
+  format: typeof CONCEPT_PACK_FORMAT;
+  version: number;
+  name?: string;
+  description?: string;
+  exported_at?: string;
+  concepts: PackConcept[];
+  relationships: PackRelationship[];
+}
+
+export interface PackConcept {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  importance: number;
+}
+
+export interface PackRelationship {
+  from: string;
+  to: string;
+  type: RelationshipType;
+  strength: number;
+}
+
+/** What to do when an imported concept ID already exists in the target store */
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export interface PackImportReport {
+  created: string[];
+  overwritten: string[];
+  skipped: string[];
+  renamed: Array<{ from: string; to: string }>;
+  relationships: number;
+}
+
+const RELATIONSHIP_TYPES: RelationshipType[] = ['related', 'prerequisite', 'extends', 'conflicts'];
+const CONFLICT_STRATEGIES: ConflictStrategy[] = ['skip', 'overwrite', 'rename'];
+
+export function exportPack(store: ConceptStore, options: {
+  ids?: string[];
+  tags?: string[];
+  name?: string;
+  description?: string;
+} = {}): ConceptPack {
+  const concepts = store.list({ ids: options.ids, tags: options.tags });
+  const included = new Set(concepts.map(c => c.id));
+
+  // Only edges between exported concepts; each edge (per type) appears once
+  const relationships = new Map<string, PackRelationship>();
+  for (const concept of concepts) {
+    for (const rel of store.getRelationships(concept.id)) {
+      if (included.has(rel.concept_id) && included.has(rel.related_id)) {
+        relationships.set(`${rel.concept_id}\u0000${rel.related_id}\u0000${rel.relationship_type}`, {
+          from: rel.concept_id,
+          to: rel.related_id,
+          type: rel.relationship_type,
+          strength: rel.strength
+        });
+      }
+    }
+  }
+
+  return {
+    format: CONCEPT_PACK_FORMAT,
+    version: CONCEPT_PACK_VERSION,
+    name: options.name,
+    description: options.description,
+    exported_at: new Date().toISOString(),
+    concepts: concepts.map(({ id, title, body, tags, importance }) => ({ id, title, body, tags, importance })),
+    relationships: Array.from(relationships.values())
+  };
+}
+
+export function serializePack(pack: ConceptPack, format: 'json' | 'yaml' = 'json'): string {
+  // Drop unset optional fields so they don't show up as null in YAML
+  const clean = JSON.parse(JSON.stringify(pack));
+  return format === 'yaml' ? yaml.dump(clean, { lineWidth: 120 }) : JSON.stringify(clean, null, 2);
+}
+
+/**
+ * Parse and validate a pack from JSON or YAML text
+ */
+export function parsePack(text: string): ConceptPack {
+  let raw: any;
+  try {
+    // YAML is a superset of JSON, so one parser handles both
+    raw = yaml.load(text);
+  } catch (error) {
+    throw new Error(`Invalid concept pack: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!raw || typeof raw !== 'object' || raw.format !== CONCEPT_PACK_FORMAT) {
+    throw new Error(`Invalid concept pack: expected format '${CONCEPT_PACK_FORMAT}'`);
+  }
+  if (typeof raw.version !== 'number' || raw.version > CONCEPT_PACK_VERSION) {
+    throw new Error(`Unsupported concept pack version ${raw.version} (this version of Kratos reads up to ${CONCEPT_PACK_VERSION})`);
+  }
+  if (!Array.isArray(raw.concepts)) {
+    throw new Error('Invalid concept pack: concepts must be a list');
+  }
+
+  const concepts: PackConcept[] = raw.concepts.map((c: any, index: number) => {
+    if (!c || typeof c.id !== 'string' || typeof c.title !== 'string' || typeof c.body !== 'string') {
+      throw new Error(`Invalid concept pack: concept #${index + 1} needs string id, title and body`);
+    }
+    const importance = Number.isInteger(c.importance) && c.importance >= 1 && c.importance <= 5 ? c.importance : 3;
+    return {
+      id: c.id,
+      title: c.title,
+      body: c.body,
+      tags: Array.isArray(c.tags) ? c.tags.map(String) : [],
+      importance
+    };
+  });
+
+  const relationships: PackRelationship[] = (Array.isArray(raw.relationships) ? raw.relationships : []).map((r: any, index: number) => {
+    if (!r || typeof r.from !== 'string' || typeof r.to !== 'string') {
+      throw new Error(`Invalid concept pack: relationship #${index + 1} needs string from and to`);
+    }
+    if (r.type !== undefined && !RELATIONSHIP_TYPES.includes(r.type)) {
+      throw new Error(`Invalid concept pack: relationship #${index + 1} has unknown type '${r.type}'`);
+    }
+    return {
+      from: r.from,
+      to: r.to,
+      type: r.type || 'related',
+      strength: typeof r.strength === 'number' ? r.strength : 0.5
+    };
+  });
+
+  return {
+    format: CONCEPT_PACK_FORMAT,
+    version: raw.version,
+    name: raw.name,
+    description: raw.description,
+    exported_at: raw.exported_at,
+    concepts,
+    relationships
+  };
+}
+
+export function importPack(store: ConceptStore, pack: ConceptPack, strategy: ConflictStrategy = 'skip'): PackImportReport {
+  if (!CONFLICT_STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown conflict strategy '${strategy}'. Use one of: ${CONFLICT_STRATEGIES.join(', ')}`);
+  }
+
+  const report: PackImportReport = { created: [], overwritten: [], skipped: [], renamed: [], relationships: 0 };
+  // Pack ID -> ID in the store, so relationships follow renamed concepts
+  const idMap = new Map<string, string>();
+
+  for (const concept of pack.concepts) {
+    let id = concept.id;
+    if (store.get(id)) {
+      if (strategy === 'skip') {
+        report.skipped.push(id);
+        idMap.set(concept.id, id);
+        continue;
+      }
+      if (strategy === 'rename') {
+        id = freeId(store, concept.id);
+        report.renamed.push({ from: concept.id, to: id });
+      } else {
+        report.overwritten.push(id);
+      }
+    } else {
+      report.created.push(id);
+    }
+
+    store.save({
+      id,
+      title: concept.title,
+      body: concept.body,
+      tags: concept.tags,
+      importance: concept.importance,
+      source: 'imported'
+    });
+    idMap.set(concept.id, id);
+  }
+
+  for (const rel of pack.relationships) {
+    const from = idMap.get(rel.from);
+    const to = idMap.get(rel.to);
+    if (from && to) {
+      store.addRelationships(from, [to], rel.type, rel.strength);
+      report.relationships++;
+    }
+  }
+
+  logger.info(`Imported concept pack${pack.name ? ` '${pack.name}'` : ''}: ${report.created.length} created, ${report.overwritten.length} overwritten, ${report.renamed.length} renamed, ${report.skipped.length} skipped`);
+  return report;
+}
+
+function freeId(store: ConceptStore, id: string): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${id}-${n}`;
+    if (!store.get(candidate)) return candidate;
+  }
+}
\ No newline at end of file
@@ -4,6 +4,7 @@ import os from 'os';
 import fs from 'fs-extra';
 import crypto from 'crypto';
 import { MCPLogger as Logger } from '../utils/mcp-logger.js';
+import { MemoryDatabase } from './database.js';
 
 const logger = new Logger('ConceptStore');
 
@@ -15,100 +16,440 @@ export interface Concept {
   importance: number;
   created_at: number;
   updated_at: number;
+  usage_count: number;
+  last_used?: number;
+  source: ConceptSource;
+  confidence: number;
+  /** Discovered concepts wait for a human to accept them */
+  review_status: ReviewStatus;
 }
 
+export type ReviewStatus = 'pending' | 'accepted';
+
+export type ConceptSource = 'manual' | 'discovered' | 'imported';
+
+/** Which store a concept lives in: the shared library or one project's own store */
+export type ConceptOrigin = 'global' | 'project';
+
+export type RelationshipType = 'related' | 'prerequisite' | 'extends' | 'conflicts';
+
 export interface ConceptSearchResult {
   concept: Concept;
   score: number;
+  origin: ConceptOrigin;
   snippet?: string;
+  /** Set on results added by includeRelated */
+  relatedTo?: string;
+}
+
+export interface ConceptRelationship {
+  concept_id: string;
+  related_id: string;
+  relationship_type: RelationshipType;
+  strength: number;
+  note?: string;
+}
+
+/**
+ * A likely contradiction between a concept and another concept or a memory
+ */
+export interface ConceptConflict {
+  id: string;
+  kind: 'concept' | 'memory';
+  origin?: ConceptOrigin;
+  reason?: string;
+}
+
+/**
+ * Back-link from a concept to the project memory holding a copy of it
+ */
+export interface ConceptLink {
+  concept_id: string;
+  project_id: string;
+  memory_id: string;
+  /** The concept's updated_at when it was last copied into the memory */
+  synced_at: number;
+  linked_at: number;
+}
+
+export interface ConceptGraph {
+  roots: string[];
+  nodes: Array<{ id: string; title: string; tags: string[]; importance: number; depth: number }>;
+  edges: ConceptRelationship[];
+}
+
+export interface ConceptLinkStatus extends ConceptLink {
+  origin: ConceptOrigin;
+  /** 'updated' when the concept was edited after the memory was last refreshed */
+  status: 'current' | 'updated';
+  concept_updated_at: number;
 }
 
+// Indexes the tags JSON array as space-separated words
+const FTS_TAGS = (row: string) => `COALESCE((SELECT group_concat(value, ' ') FROM json_each(${row}.tags)), '')`;
+
+/**
+ * Schema migrations, applied in order. PRAGMA user_version records how many
+ * have run, so an existing concepts.db is upgraded in place. Steps must be
+ * safe on databases created by either of the older unversioned schemas.
+ */
+const MIGRATIONS: Array<(db: Database.Database) => void> = [
+  // 1: base schema
+  db => db.exec(`
+    CREATE TABLE IF NOT EXISTS concepts (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      body TEXT NOT NULL,
+      tags TEXT DEFAULT '[]',
+      importance INTEGER DEFAULT 3 CHECK(importance >= 1 AND importance <= 5),
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_concept_importance ON concepts(importance DESC);
+    CREATE INDEX IF NOT EXISTS idx_concept_created ON concepts(created_at DESC);
+
+    -- Allowlist table for project-level concept permissions
+    CREATE TABLE IF NOT EXISTS project_allowlists (
+      project_id TEXT NOT NULL,
+      concept_id TEXT NOT NULL,
+      added_at INTEGER NOT NULL,
+      PRIMARY KEY (project_id, concept_id),
+      FOREIGN KEY (concept_id) REFERENCES concepts(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_allowlist_project ON project_allowlists(project_id);
+  `),
+
+  // 2: usage tracking, provenance and allowlist suggestions
+  db => {
+    addColumn(db, 'concepts', 'usage_count', 'INTEGER DEFAULT 0');
+    addColumn(db, 'concepts', 'last_used', 'INTEGER');
+    addColumn(db, 'concepts', 'source', "TEXT DEFAULT 'manual'");
+    addColumn(db, 'concepts', 'confidence', 'REAL DEFAULT 1.0');
+    addColumn(db, 'project_allowlists', 'auto_suggested', 'BOOLEAN DEFAULT 0');
+    addColumn(db, 'project_allowlists', 'accepted', 'BOOLEAN DEFAULT 1');
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_concept_usage ON concepts(usage_count DESC);
+      CREATE INDEX IF NOT EXISTS idx_concept_last_used ON concepts(last_used DESC);
+    `);
+  },
+
+  // 3: relationships between concepts
+  db => db.exec(`
+    CREATE TABLE IF NOT EXISTS concept_relationships (
+      concept_id TEXT NOT NULL,
+      related_id TEXT NOT NULL,
+      relationship_type TEXT DEFAULT 'related', -- related, prerequisite, extends, conflicts
+      strength REAL DEFAULT 0.5,
+      PRIMARY KEY (concept_id, related_id),
+      FOREIGN KEY (concept_id) REFERENCES concepts(id) ON DELETE CASCADE,
+      FOREIGN KEY (related_id) REFERENCES concepts(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_relationship_related ON concept_relationships(related_id);
+  `),
+
+  // 4: search tags too. Recreating the index also replaces the older triggers
+  // that removed external-content rows with a plain DELETE
+  db => db.exec(`
+    DROP TRIGGER IF EXISTS concept_fts_insert;
+    DROP TRIGGER IF EXISTS concept_fts_delete;
+    DROP TRIGGER IF EXISTS concept_fts_update;
+    DROP TABLE IF EXISTS concept_fts;
+
+    CREATE VIRTUAL TABLE concept_fts USING fts5(
+      title,
+      body,
+      tags,
+      content='concepts',
+      content_rowid='rowid',
+      tokenize='porter unicode61'
+    );
+
+    CREATE TRIGGER concept_fts_insert AFTER INSERT ON concepts BEGIN
+      INSERT INTO concept_fts(rowid, title, body, tags) VALUES (new.rowid, new.title, new.body, ${FTS_TAGS('new')});
+    END;
+
+    -- External-content FTS rows must be removed with the 'delete' command
+    CREATE TRIGGER concept_fts_delete AFTER DELETE ON concepts BEGIN
+      INSERT INTO concept_fts(concept_fts, rowid, title, body, tags) VALUES ('delete', old.rowid, old.title, old.body, ${FTS_TAGS('old')});
+    END;
+
+    CREATE TRIGGER concept_fts_update AFTER UPDATE OF title, body, tags ON concepts BEGIN
+      INSERT INTO concept_fts(concept_fts, rowid, title, body, tags) VALUES ('delete', old.rowid, old.title, old.body, ${FTS_TAGS('old')});
+      INSERT INTO concept_fts(rowid, title, body, tags) VALUES (new.rowid, new.title, new.body, ${FTS_TAGS('new')});
+    END;
+
+    INSERT INTO concept_fts(rowid, title, body, tags)
+      SELECT rowid, title, body, ${FTS_TAGS('concepts')} FROM concepts;
+  `),
+
+  // 5: concepts copied into project memories
+  db => db.exec(`
+    CREATE TABLE IF NOT EXISTS concept_links (
+      concept_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      memory_id TEXT NOT NULL,
+      synced_at INTEGER NOT NULL,
+      linked_at INTEGER NOT NULL,
+      PRIMARY KEY (concept_id, project_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_concept_links_memory ON concept_links(project_id, memory_id);
+  `),
+
+  // 6: review queue. Rejections are remembered so the same suggestion
+  // (by concept ID) or discovery (by text fingerprint) is not offered again
+  db => {
+    addColumn(db, 'concepts', 'review_status', "TEXT DEFAULT 'accepted'");
+    db.exec(`
+      UPDATE concepts SET review_status = 'pending' WHERE source = 'discovered';
+
+      CREATE TABLE IF NOT EXISTS concept_rejections (
+        kind TEXT NOT NULL,              -- suggestion, discovery
+        rejection_key TEXT NOT NULL,     -- concept ID or text fingerprint
+        project_id TEXT NOT NULL DEFAULT '',
+        rejected_at INTEGER NOT NULL,
+        PRIMARY KEY (kind, rejection_key, project_id)
+      );
+    `);
+  },
+
+  // 7: detected contradictions. Between concepts they are 'conflicts'
+  // relationships (with the reason as note); with memories they are kept here
+  db => {
+    addColumn(db, 'concept_relationships', 'note', 'TEXT');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS concept_memory_conflicts (
+        concept_id TEXT NOT NULL,
+        project_id TEXT NOT NULL,
+        memory_id TEXT NOT NULL,
+        reason TEXT,
+        detected_at INTEGER NOT NULL,
+        PRIMARY KEY (concept_id, project_id, memory_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_memory_conflicts_memory ON concept_memory_conflicts(project_id, memory_id);
+    `);
+  },
+
+  // 8: one relationship per type, so a detected conflict and a 'related'
+  // edge between the same two concepts no longer overwrite each other
+  db => db.exec(`
+    CREATE TABLE concept_relationships_v8 (
+      concept_id TEXT NOT NULL,
+      related_id TEXT NOT NULL,
+      relationship_type TEXT NOT NULL DEFAULT 'related', -- related, prerequisite, extends, conflicts
+      strength REAL DEFAULT 0.5,
+      note TEXT,
+      PRIMARY KEY (concept_id, related_id, relationship_type),
+      FOREIGN KEY (concept_id) REFERENCES concepts(id) ON DELETE CASCADE,
+      FOREIGN KEY (related_id) REFERENCES concepts(id) ON DELETE CASCADE
+    );
+
+    INSERT INTO concept_relationships_v8 (concept_id, related_id, relationship_type, strength, note)
+      SELECT concept_id, related_id, COALESCE(relationship_type, 'related'), strength, note FROM concept_relationships;
+
+    DROP TABLE concept_relationships;
+    ALTER TABLE concept_relationships_v8 RENAME TO concept_relationships;
+    CREATE INDEX IF NOT EXISTS idx_relationship_related ON concept_relationships(related_id);
+  `)
+];
+
+// Library tables holding per-project state, keyed by project_id
+const PROJECT_SCOPED_TABLES = ['project_allowlists', 'concept_links', 'concept_rejections', 'concept_memory_conflicts'];
+
+function fingerprint(text: string): string {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  return crypto.createHash('sha256').update(normalized).digest('hex').substring(0, 16);
+}
+
+function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Concepts live in two kinds of store: the global library shared by every
+ * project (~/.kratos/global/concepts.db) and each project's own store.
+ * A project sees all of its own concepts plus the library concepts on its
+ * allowlist, which is kept in the library.
+ */
 export class ConceptStore {
   private db: Database.Database;
   private static instances: Map<string, ConceptStore> = new Map();
-  private projectId: string;
+  readonly origin: ConceptOrigin;
 
-  private constructor(projectId: string) {
-    this.projectId = projectId;
-    
-    // ISOLATED concept store per project - no pollution!
-    const kratosHome = path.join(os.homedir(), '.kratos');
-    const dbPath = path.join(kratosHome, 'projects', projectId, 'databases', 'concepts.db');
+  private constructor(origin: ConceptOrigin, dbPath: string) {
+    this.origin = origin;
     fs.ensureDirSync(path.dirname(dbPath));
     
     this.db = new Database(dbPath);
     this.db.pragma('journal_mode = WAL');
     
-    this.initializeSchema();
-    logger.info(`Concept store ISOLATED for project: ${projectId}`);
+    this.migrate();
+
+    // Only the library starts with seed concepts; project stores start empty
+    if (origin === 'global' && this.count() === 0 && this.importLegacyLibrary() === 0) {
+      this.seedInitialConcepts();
+    }
   }
 
+  /**
+   * A project's own concept store, or the global library when no project is given
+   */
   static getInstance(projectId?: string): ConceptStore {
-    const id = projectId || 'global';
-    
-    if (!ConceptStore.instances.has(id)) {
-      ConceptStore.instances.set(id, new ConceptStore(id));
-    }
-    return ConceptStore.instances.get(id)!;
-  }
-
-  private initializeSchema() {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS concepts (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        body TEXT NOT NULL,
-        tags TEXT DEFAULT '[]',
-        importance INTEGER DEFAULT 3 CHECK(importance >= 1 AND importance <= 5),
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      );
+    if (!projectId) {
+      return ConceptStore.getGlobal();
+    }
 
-      CREATE INDEX IF NOT EXISTS idx_concept_importance ON concepts(importance DESC);
-      CREATE INDEX IF NOT EXISTS idx_concept_created ON concepts(created_at DESC);
+    const key = `project:${projectId}`;
+    if (!ConceptStore.instances.has(key)) {
+      // ISOLATED concept store per project - no pollution!
+      const dbPath = path.join(os.homedir(), '.kratos', 'projects', projectId, 'databases', 'concepts.db');
+      ConceptStore.instances.set(key, new ConceptStore('project', dbPath));
+      logger.info(`Concept store ISOLATED for project: ${projectId}`);
+    }
+    return ConceptStore.instances.get(key)!;
+  }
 
-      CREATE VIRTUAL TABLE IF NOT EXISTS concept_fts USING fts5(
-        title,
-        body,
-        content='concepts',
-        content_rowid='rowid',
-        tokenize='porter unicode61'
-      );
+  /**
+   * Close a project's store, e.g. before its data directory is removed
+   */
+  static release(projectId: string) {
+    const key = `project:${projectId}`;
+    ConceptStore.instances.get(key)?.close();
+    ConceptStore.instances.delete(key);
+  }
 
-      -- FTS sync triggers
-      CREATE TRIGGER IF NOT EXISTS concept_fts_insert AFTER INSERT ON concepts BEGIN
-        INSERT INTO concept_fts(rowid, title, body) VALUES (new.rowid, new.title, new.body);
-      END;
+  /**
+   * Hand a project's allowlist, links, rejections and conflicts in the
+   * library over to another project; rows the target already has win
+   */
+  static reassignProject(fromProjectId: string, toProjectId: string) {
+    const db = ConceptStore.getGlobal().db;
+    db.transaction(() => {
+      for (const table of PROJECT_SCOPED_TABLES) {
+        db.prepare(`UPDATE OR IGNORE ${table} SET project_id = ? WHERE project_id = ?`).run(toProjectId, fromProjectId);
+      }
+    })();
+    ConceptStore.forgetProject(fromProjectId);
+  }
 
-      CREATE TRIGGER IF NOT EXISTS concept_fts_delete AFTER DELETE ON concepts BEGIN
-        DELETE FROM concept_fts WHERE rowid = old.rowid;
-      END;
+  /**
+   * Drop everything the library keeps about a project
+   */
+  static forgetProject(projectId: string) {
+    const db = ConceptStore.getGlobal().db;
+    db.transaction(() => {
+      for (const table of PROJECT_SCOPED_TABLES) {
+        db.prepare(`DELETE FROM ${table} WHERE project_id = ?`).run(projectId);
+      }
+    })();
+  }
 
-      CREATE TRIGGER IF NOT EXISTS concept_fts_update AFTER UPDATE ON concepts BEGIN
-        DELETE FROM concept_fts WHERE rowid = old.rowid;
-        INSERT INTO concept_fts(rowid, title, body) VALUES (new.rowid, new.title, new.body);
-      END;
+  static getGlobal(): ConceptStore {
+    if (!ConceptStore.instances.has('global')) {
+      const dbPath = path.join(os.homedir(), '.kratos', 'global', 'concepts.db');
+      ConceptStore.instances.set('global', new ConceptStore('global', dbPath));
+      logger.info('Global concept library opened');
+    }
+    return ConceptStore.instances.get('global')!;
+  }
 
-      -- Allowlist table for project-level concept permissions
-      CREATE TABLE IF NOT EXISTS project_allowlists (
-        project_id TEXT NOT NULL,
-        concept_id TEXT NOT NULL,
-        added_at INTEGER NOT NULL,
-        PRIMARY KEY (project_id, concept_id),
-        FOREIGN KEY (concept_id) REFERENCES concepts(id) ON DELETE CASCADE
-      );
+  /**
+   * Search a project's own concepts and the global library together. A
+   * project concept shadows a library concept with the same ID.
+   */
+  static searchAll(projectId: string, params: {
+    q: string;
+    k?: number;
+    /** Only library concepts on the project's allowlist (project concepts are always included) */
+    allowlistedOnly?: boolean;
+    includeRelated?: boolean;
+    reviewedOnly?: boolean;
+    origin?: ConceptOrigin;
+  }): ConceptSearchResult[] {
+    const k = params.k || 10;
+    const projectResults = params.origin === 'global'
+      ? []
+      : ConceptStore.getInstance(projectId).search({
+        q: params.q,
+        k,
+        includeRelated: params.includeRelated,
+        reviewedOnly: params.reviewedOnly
+      });
+    const globalResults = params.origin === 'project'
+      ? []
+      : ConceptStore.getGlobal().search({
+        q: params.q,
+        k,
+        includeRelated: params.includeRelated,
+        reviewedOnly: params.reviewedOnly,
+        projectId: params.allowlistedOnly ? projectId : undefined
+      });
 
-      CREATE INDEX IF NOT EXISTS idx_allowlist_project ON project_allowlists(project_id);
-    `);
+    const shadowed = new Set(projectResults.map(r => r.concept.id));
+    return [...projectResults, ...globalResults.filter(r => !shadowed.has(r.concept.id))]
+      .sort((a, b) => b.score - a.score || b.concept.importance - a.concept.importance)
+      .slice(0, k);
+  }
+
+  /**
+   * Bring the database up to the latest schema version
+   */
+  private migrate() {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version >= MIGRATIONS.length) return;
+
+    for (let v = version; v < MIGRATIONS.length; v++) {
+      this.db.transaction(() => {
+        MIGRATIONS[v](this.db);
+        this.db.pragma(`user_version = ${v + 1}`);
+      })();
+    }
+    logger.info(`Migrated concept store schema from version ${version} to ${MIGRATIONS.length}`);
+  }
+
+  private count(): number {
+    return (this.db.prepare('SELECT COUNT(*) as count FROM concepts').get() as any).count;
+  }
 
-    // Seed initial concepts if empty
-    this.seedInitialConcepts();
+  /**
+   * The library used to be a pseudo-project named 'global'; carry its
+   * concepts and relationships over when the real library is first created
+   */
+  private importLegacyLibrary(): number {
+    const legacyPath = path.join(os.homedir(), '.kratos', 'projects', 'global', 'databases', 'concepts.db');
+    if (!fs.existsSync(legacyPath)) return 0;
+
+    // Opening the legacy file as a store brings it up to the current schema
+    new ConceptStore('project', legacyPath).close();
+
+    this.db.prepare('ATTACH DATABASE ? AS legacy').run(legacyPath);
+    try {
+      const imported = this.db.transaction(() => {
+        const columns = 'id, title, body, tags, importance, created_at, updated_at, usage_count, last_used, source, confidence';
+        const changes = this.db.prepare(`INSERT OR IGNORE INTO concepts (${columns}) SELECT ${columns} FROM legacy.concepts`).run().changes;
+        this.db.exec(`
+          INSERT OR IGNORE INTO concept_relationships (concept_id, related_id, relationship_type, strength, note)
+          SELECT concept_id, related_id, relationship_type, strength, note FROM legacy.concept_relationships
+        `);
+        this.db.exec('INSERT OR IGNORE INTO project_allowlists SELECT * FROM legacy.project_allowlists');
+        return changes;
+      })();
+      logger.info(`Imported ${imported} concepts from the legacy global concept store`);
+      return imported;
+    } finally {
+      this.db.exec('DETACH DATABASE legacy');
+    }
   }
 
   private seedInitialConcepts() {
-    const count = this.db.prepare('SELECT COUNT(*) as count FROM concepts').get() as any;
-    
-    if (count.count === 0) {
+    if (this.count() === 0) {
       const initialConcepts = [
         {
           id: 'jwt-auth-v2',
@@ -174,6 +515,10 @@ export class ConceptStore {
     k?: number;
     allowlist?: string[];
     projectId?: string;
+    /** Append concepts related to the top hits */
+    includeRelated?: boolean;
+    /** Leave out discovered concepts still waiting for review */
+    reviewedOnly?: boolean;
   }): ConceptSearchResult[] {
     const k = params.k || 10;
     
@@ -182,7 +527,8 @@ export class ConceptStore {
     
     // Use different query based on whether we have a search term
     let query: string;
-    let queryParams: any[];
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
     
     if (searchQuery === '*' || !searchQuery.trim()) {
       // Return all concepts when wildcard or empty query
@@ -193,7 +539,6 @@ export class ConceptStore {
           '' as snippet
         FROM concepts c
       `;
-      queryParams = [];
     } else {
       // Normal FTS search
       query = `
@@ -203,48 +548,82 @@ export class ConceptStore {
           snippet(concept_fts, 0, '[', ']', '...', 32) as snippet
         FROM concepts c
         JOIN concept_fts ON c.rowid = concept_fts.rowid
-        WHERE concept_fts MATCH ?
       `;
-      queryParams = [searchQuery];
+      conditions.push('concept_fts MATCH ?');
+      queryParams.push(searchQuery);
     }
 
     // Apply allowlist filter if project specified
     if (params.projectId) {
-      if (searchQuery === '*') {
-        query += ` WHERE c.id IN (
-          SELECT concept_id FROM project_allowlists WHERE project_id = ?
-        )`;
-      } else {
-        query += ` AND c.id IN (
-          SELECT concept_id FROM project_allowlists WHERE project_id = ?
-        )`;
-      }
+      conditions.push(`c.id IN (
+        SELECT concept_id FROM project_allowlists WHERE project_id = ? AND accepted = 1
+      )`);
       queryParams.push(params.projectId);
     } else if (params.allowlist && params.allowlist.length > 0) {
-      if (searchQuery === '*') {
-        query += ` WHERE c.id IN (${params.allowlist.map(() => '?').join(',')})`;
-      } else {
-        query += ` AND c.id IN (${params.allowlist.map(() => '?').join(',')})`;
-      }
+      conditions.push(`c.id IN (${params.allowlist.map(() => '?').join(',')})`);
       queryParams.push(...params.allowlist);
     }
 
+    if (params.reviewedOnly) {
+      conditions.push("c.review_status = 'accepted'");
+    }
+
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
     // Add appropriate ordering and limit
     if (searchQuery === '*') {
       query += ' ORDER BY c.importance DESC, c.created_at DESC LIMIT ?';
     } else {
-      query += ' ORDER BY fts_score DESC, c.importance DESC LIMIT ?';
+      // bm25() is negative with better matches lower, so ascending puts the best first
+      query += ' ORDER BY fts_score ASC, c.importance DESC LIMIT ?';
     }
     queryParams.push(k);
 
-    const stmt = this.db.prepare(query);
-    const results = stmt.all(...queryParams) as any[];
+    let results: any[];
+    try {
+      results = this.db.prepare(query).all(...queryParams) as any[];
+    } catch (error) {
+      if (searchQuery === '*') throw error;
 
-    return results.map(row => ({
+      // Not valid FTS syntax (e.g. "rate-limit"): retry matching any of the words
+      const words = searchQuery.split(/[^\w]+/).filter(w => w.length > 0);
+      if (words.length === 0) return [];
+      queryParams[0] = words.map(w => `"${w}"`).join(' OR ');
+      results = this.db.prepare(query).all(...queryParams) as any[];
+    }
+
+    const found = results.map(row => ({
       concept: this.rowToConcept(row),
-      score: -row.fts_score,
+      // Any match scores at least 1.0 like a wildcard hit: a project store holds
+      // few concepts, and bm25's IDF is near zero for terms most of them share
+      score: searchQuery === '*' ? row.fts_score : 1 - row.fts_score,
+      origin: this.origin,
       snippet: row.snippet
     }));
+
+    return params.includeRelated ? this.enrichWithRelated(found) : found;
+  }
+
+  /**
+   * All concepts, optionally restricted to the given IDs or to those carrying any of the tags
+   */
+  list(filter: { ids?: string[]; tags?: string[] } = {}): Concept[] {
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+    if (filter.ids && filter.ids.length > 0) {
+      conditions.push(`id IN (${filter.ids.map(() => '?').join(',')})`);
+      queryParams.push(...filter.ids);
+    }
+    if (filter.tags && filter.tags.length > 0) {
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(tags) WHERE lower(value) IN (${filter.tags.map(() => '?').join(',')}))`);
+      queryParams.push(...filter.tags.map(t => t.toLowerCase()));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return (this.db.prepare(`SELECT * FROM concepts ${where} ORDER BY importance DESC, id`).all(...queryParams) as any[])
+      .map(row => this.rowToConcept(row));
   }
 
   get(id: string): Concept | null {
@@ -260,6 +639,10 @@ export class ConceptStore {
     body: string;
     tags?: string[];
     importance?: number;
+    source?: ConceptSource;
+    confidence?: number;
+    /** IDs of concepts to link with a 'related' relationship */
+    relatedTo?: string[];
   }): { id: string } {
     const now = Date.now();
     const id = params.id || this.generateConceptId(params.title);
@@ -272,10 +655,10 @@ export class ConceptStore {
     const existing = this.get(id);
     
     if (existing) {
-      // Update existing
+      // Update existing; usage history and provenance are kept
       const stmt = this.db.prepare(`
         UPDATE concepts 
-        SET title = ?, body = ?, tags = ?, importance = ?, updated_at = ?
+        SET title = ?, body = ?, tags = ?, importance = ?, confidence = ?, updated_at = ?
         WHERE id = ?
       `);
       
@@ -284,14 +667,15 @@ export class ConceptStore {
         params.body,
         JSON.stringify(params.tags || []),
         params.importance || existing.importance,
+        params.confidence ?? existing.confidence,
         now,
         id
       );
     } else {
       // Insert new
       const stmt = this.db.prepare(`
-        INSERT INTO concepts (id, title, body, tags, importance, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO concepts (id, title, body, tags, importance, source, confidence, review_status, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
       
       stmt.run(
@@ -300,27 +684,57 @@ export class ConceptStore {
         params.body,
         JSON.stringify(params.tags || []),
         params.importance || 3,
+        params.source || 'manual',
+        params.confidence ?? 1.0,
+        params.source === 'discovered' ? 'pending' : 'accepted',
         now,
         now
       );
+
+      this.relateByTags(id, params.tags || []);
+    }
+
+    if (params.relatedTo && params.relatedTo.length > 0) {
+      this.addRelationships(id, params.relatedTo.filter(relatedId => this.get(relatedId)));
     }
 
     logger.info(`Concept saved: ${id} - ${params.title}`);
     return { id };
   }
 
+  delete(id: string): { ok: boolean; message: string } {
+    const removeConcept = this.db.transaction(() => {
+      // Allowlist and relationship rows reference the concept; foreign keys are not enforced here
+      this.db.prepare('DELETE FROM project_allowlists WHERE concept_id = ?').run(id);
+      this.db.prepare('DELETE FROM concept_relationships WHERE concept_id = ? OR related_id = ?').run(id, id);
+      this.db.prepare('DELETE FROM concept_links WHERE concept_id = ?').run(id);
+      this.db.prepare('DELETE FROM concept_memory_conflicts WHERE concept_id = ?').run(id);
+      return this.db.prepare('DELETE FROM concepts WHERE id = ?').run(id).changes;
+    });
+
+    if (removeConcept() === 0) {
+      return { ok: false, message: `Concept not found: ${id}` };
+    }
+
+    logger.info(`Concept deleted: ${id}`);
+    return { ok: true, message: `Concept ${id} deleted` };
+  }
+
   updateAllowlist(params: {
     projectId: string;
     add?: string[];
     remove?: string[];
     list?: boolean;
-  }): { allowlist?: string[]; added?: string[]; removed?: string[] } {
+  }): { allowlist?: string[]; suggested?: string[]; added?: string[]; removed?: string[] } {
     const result: any = {};
 
     if (params.add && params.add.length > 0) {
+      // Adding a pending suggestion accepts it
       const stmt = this.db.prepare(`
-        INSERT OR IGNORE INTO project_allowlists (project_id, concept_id, added_at)
-        VALUES (?, ?, ?)
+        INSERT INTO project_allowlists (project_id, concept_id, added_at, auto_suggested, accepted)
+        VALUES (?, ?, ?, 0, 1)
+        ON CONFLICT(project_id, concept_id) DO UPDATE SET accepted = 1, added_at = excluded.added_at
+        WHERE accepted = 0
       `);
       
       const now = Date.now();
@@ -340,16 +754,10 @@ export class ConceptStore {
     }
 
     if (params.remove && params.remove.length > 0) {
-      const stmt = this.db.prepare(`
-        DELETE FROM project_allowlists 
-        WHERE project_id = ? AND concept_id = ?
-      `);
-      
       const removed = [];
       
       for (const conceptId of params.remove) {
-        const res = stmt.run(params.projectId, conceptId);
-        if (res.changes > 0) {
+        if (this.rejectSuggestion(params.projectId, conceptId) || this.removeFromAllowlist(params.projectId, conceptId)) {
           removed.push(conceptId);
         }
       }
@@ -359,30 +767,459 @@ export class ConceptStore {
 
     if (params.list) {
       const stmt = this.db.prepare(`
-        SELECT concept_id FROM project_allowlists 
+        SELECT concept_id, accepted FROM project_allowlists 
         WHERE project_id = ? 
         ORDER BY added_at DESC
       `);
       
       const rows = stmt.all(params.projectId) as any[];
-      result.allowlist = rows.map(r => r.concept_id);
+      result.allowlist = rows.filter(r => r.accepted).map(r => r.concept_id);
+      result.suggested = rows.filter(r => !r.accepted).map(r => r.concept_id);
     }
 
     return result;
   }
 
-  linkToProject(conceptId: string, projectId: string): { memoryId: string } {
+  /**
+   * Suggest concepts for a project from a description of its work. Suggestions
+   * are recorded as pending allowlist entries: they only take effect once
+   * accepted by adding them to the allowlist.
+   */
+  suggestForProject(projectId: string, context: string, k: number = 5): Concept[] {
+    const listed = new Set([
+      ...(this.db.prepare('SELECT concept_id FROM project_allowlists WHERE project_id = ?').all(projectId) as any[])
+        .map(r => r.concept_id),
+      ...(this.db.prepare("SELECT rejection_key FROM concept_rejections WHERE kind = 'suggestion' AND project_id = ?").all(projectId) as any[])
+        .map(r => r.rejection_key)
+    ]);
+
+    // Any word of the description may match
+    const words = context.split(/[^\w]+/).filter(w => w.length > 2);
+    if (words.length === 0) return [];
+
+    const suggestions = this.search({ q: words.join(' OR '), k: k + listed.size, reviewedOnly: true })
+      .map(r => r.concept)
+      .filter(concept => !listed.has(concept.id))
+      .slice(0, k);
+
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO project_allowlists (project_id, concept_id, added_at, auto_suggested, accepted)
+      VALUES (?, ?, ?, 1, 0)
+    `);
+    const now = Date.now();
+    for (const concept of suggestions) {
+      stmt.run(projectId, concept.id, now);
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Suggestions for a project that have been neither accepted nor rejected
+   */
+  listSuggestions(projectId: string): Concept[] {
+    return (this.db.prepare(`
+      SELECT c.* FROM concepts c
+      JOIN project_allowlists a ON a.concept_id = c.id
+      WHERE a.project_id = ? AND a.accepted = 0
+      ORDER BY a.added_at DESC
+    `).all(projectId) as any[]).map(row => this.rowToConcept(row));
+  }
+
+  /**
+   * Discovered concepts waiting for review
+   */
+  listDiscovered(): Concept[] {
+    return (this.db.prepare(`
+      SELECT * FROM concepts WHERE review_status = 'pending' ORDER BY created_at DESC
+    `).all() as any[]).map(row => this.rowToConcept(row));
+  }
+
+  acceptSuggestion(projectId: string, conceptId: string): boolean {
+    return this.db.prepare(`
+      UPDATE project_allowlists SET accepted = 1, added_at = ?
+      WHERE project_id = ? AND concept_id = ? AND accepted = 0
+    `).run(Date.now(), projectId, conceptId).changes > 0;
+  }
+
+  /**
+   * Drop a pending suggestion and remember not to suggest it to the project again
+   */
+  rejectSuggestion(projectId: string, conceptId: string): boolean {
+    return this.db.transaction(() => {
+      const removed = this.db.prepare(`
+        DELETE FROM project_allowlists WHERE project_id = ? AND concept_id = ? AND accepted = 0
+      `).run(projectId, conceptId).changes > 0;
+      if (removed) {
+        this.db.prepare(`
+          INSERT OR REPLACE INTO concept_rejections (kind, rejection_key, project_id, rejected_at)
+          VALUES ('suggestion', ?, ?, ?)
+        `).run(conceptId, projectId, Date.now());
+      }
+      return removed;
+    })();
+  }
+
+  acceptDiscovered(conceptId: string): boolean {
+    return this.db.prepare(`
+      UPDATE concepts SET review_status = 'accepted', confidence = 1.0
+      WHERE id = ? AND review_status = 'pending'
+    `).run(conceptId).changes > 0;
+  }
+
+  /**
+   * Delete a discovered concept and remember its text so it is not rediscovered
+   */
+  rejectDiscovered(conceptId: string): boolean {
+    const concept = this.get(conceptId);
+    if (!concept || concept.review_status !== 'pending') return false;
+
+    return this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO concept_rejections (kind, rejection_key, project_id, rejected_at)
+        VALUES ('discovery', ?, '', ?)
+      `).run(fingerprint(concept.body), Date.now());
+      return this.delete(conceptId).ok;
+    })();
+  }
+
+  /**
+   * Already stored as a concept, or rejected before
+   */
+  private isKnownDiscovery(text: string): boolean {
+    return !!this.db.prepare('SELECT 1 FROM concepts WHERE body = ?').get(text) || !!this.db.prepare(`
+      SELECT 1 FROM concept_rejections WHERE kind = 'discovery' AND rejection_key = ?
+    `).get(fingerprint(text));
+  }
+
+  private removeFromAllowlist(projectId: string, conceptId: string): boolean {
+    return this.db.prepare('DELETE FROM project_allowlists WHERE project_id = ? AND concept_id = ?')
+      .run(projectId, conceptId).changes > 0;
+  }
+
+  /**
+   * Record that concepts were used (e.g. injected into an agent's context)
+   */
+  trackUsage(conceptIds: string[]): void {
+    const stmt = this.db.prepare(`
+      UPDATE concepts 
+      SET usage_count = usage_count + 1, last_used = ?
+      WHERE id = ?
+    `);
+    const now = Date.now();
+    this.db.transaction(() => {
+      for (const id of conceptIds) stmt.run(now, id);
+    })();
+  }
+
+  addRelationships(conceptId: string, relatedIds: string[], type: RelationshipType = 'related', strength: number = 0.5, note?: string): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO concept_relationships (concept_id, related_id, relationship_type, strength, note)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    for (const relatedId of relatedIds) {
+      if (relatedId !== conceptId) {
+        stmt.run(conceptId, relatedId, type, strength, note ?? null);
+      }
+    }
+  }
+
+  recordMemoryConflict(conceptId: string, projectId: string, memoryId: string, reason: string): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO concept_memory_conflicts (concept_id, project_id, memory_id, reason, detected_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(conceptId, projectId, memoryId, reason, Date.now());
+  }
+
+  /**
+   * Concepts in this store and memories of the project that a concept contradicts
+   */
+  getConflicts(conceptId: string, projectId: string): ConceptConflict[] {
+    const concepts = this.getRelationships(conceptId)
+      .filter(rel => rel.relationship_type === 'conflicts')
+      .map(rel => ({
+        id: rel.concept_id === conceptId ? rel.related_id : rel.concept_id,
+        kind: 'concept' as const,
+        origin: this.origin,
+        reason: rel.note ?? undefined
+      }));
+    const memories = (this.db.prepare(`
+      SELECT memory_id, reason FROM concept_memory_conflicts WHERE concept_id = ? AND project_id = ?
+    `).all(conceptId, projectId) as any[]).map(row => ({
+      id: row.memory_id,
+      kind: 'memory' as const,
+      reason: row.reason ?? undefined
+    }));
+    return [...concepts, ...memories];
+  }
+
+  /**
+   * Concepts, from the project's store and the library, that contradict the given memories
+   */
+  static conflictsForMemories(projectId: string, memoryIds: string[]): Map<string, ConceptConflict[]> {
+    const conflicts = new Map<string, ConceptConflict[]>();
+    if (memoryIds.length === 0) return conflicts;
+
+    for (const store of [ConceptStore.getInstance(projectId), ConceptStore.getGlobal()]) {
+      const rows = store.db.prepare(`
+        SELECT concept_id, memory_id, reason FROM concept_memory_conflicts
+        WHERE project_id = ? AND memory_id IN (${memoryIds.map(() => '?').join(',')})
+      `).all(projectId, ...memoryIds) as any[];
+      for (const row of rows) {
+        const list = conflicts.get(row.memory_id) || [];
+        list.push({ id: row.concept_id, kind: 'concept', origin: store.origin, reason: row.reason ?? undefined });
+        conflicts.set(row.memory_id, list);
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Relationships touching a concept, in either direction
+   */
+  getRelationships(conceptId: string): ConceptRelationship[] {
+    return this.db.prepare(`
+      SELECT * FROM concept_relationships
+      WHERE concept_id = ? OR related_id = ?
+      ORDER BY strength DESC
+    `).all(conceptId, conceptId) as ConceptRelationship[];
+  }
+
+  /**
+   * Breadth-first walk of concept_relationships (in both directions) from one
+   * concept, or from every concept carrying a tag. Returns null when there is
+   * nothing to start from.
+   */
+  traverse(start: { id?: string; tag?: string }, options: {
+    depth?: number;
+    types?: RelationshipType[];
+  } = {}): ConceptGraph | null {
+    const roots = start.id
+      ? [this.get(start.id)].filter((c): c is Concept => c !== null)
+      : this.list({ tags: start.tag ? [start.tag] : [] });
+    if (roots.length === 0 || (!start.id && !start.tag)) return null;
+
+    const maxDepth = Math.max(1, Math.min(options.depth || 2, 5));
+    const nodes = new Map<string, ConceptGraph['nodes'][number]>();
+    const edges = new Map<string, ConceptRelationship>();
+    for (const root of roots) {
+      nodes.set(root.id, { id: root.id, title: root.title, tags: root.tags, importance: root.importance, depth: 0 });
+    }
+
+    let frontier = roots.map(r => r.id);
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const current of frontier) {
+        for (const rel of this.getRelationships(current)) {
+          if (options.types && !options.types.includes(rel.relationship_type)) continue;
+          edges.set(`${rel.concept_id}|${rel.related_id}|${rel.relationship_type}`, rel);
+
+          const neighbourId = rel.concept_id === current ? rel.related_id : rel.concept_id;
+          if (nodes.has(neighbourId)) continue;
+
+          const neighbour = this.get(neighbourId);
+          if (!neighbour) continue;
+          nodes.set(neighbourId, { id: neighbourId, title: neighbour.title, tags: neighbour.tags, importance: neighbour.importance, depth });
+          next.push(neighbourId);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return {
+      roots: roots.map(r => r.id),
+      nodes: Array.from(nodes.values()),
+      // Edges to concepts that no longer exist are left out
+      edges: Array.from(edges.values()).filter(e => nodes.has(e.concept_id) && nodes.has(e.related_id))
+    };
+  }
+
+  /**
+   * Extract candidate concepts from free text ("best practice: ...",
+   * "always ...") and save them with source 'discovered', pending review.
+   * Text already stored or rejected earlier is ignored.
+   */
+  autoDiscover(text: string): Concept[] {
+    const patterns = [
+      /(?:best practice|pattern|principle|rule):\s*([^.]+)/gi,
+      /(?:always|never|should|must)\s+([^.]+)/gi,
+      /(?:tip|note|important):\s*([^.]+)/gi,
+      /(?:remember|keep in mind):\s*([^.]+)/gi
+    ];
+
+    const discovered: Concept[] = [];
+    for (const pattern of patterns) {
+      for (const match of text.matchAll(pattern)) {
+        const conceptText = match[1].trim();
+        if (conceptText.length > 20 && conceptText.length < 500 && !this.isKnownDiscovery(conceptText)) {
+          const { id } = this.save({
+            title: this.generateTitle(conceptText),
+            body: conceptText,
+            tags: this.extractTags(conceptText),
+            importance: 3,
+            source: 'discovered',
+            confidence: 0.5
+          });
+          discovered.push(this.get(id)!);
+        }
+      }
+    }
+
+    return discovered;
+  }
+
+  /**
+   * Copy a concept into a project's memories and record a back-link. Linking
+   * again returns the existing memory; with `refresh` the memory is rewritten
+   * from the current concept (recreated if it was forgotten).
+   */
+  linkToProject(conceptId: string, projectId: string, memoryDb: MemoryDatabase, options: {
+    refresh?: boolean;
+  } = {}): { memoryId: string; action: 'created' | 'refreshed' | 'unchanged' } {
     const concept = this.get(conceptId);
     if (!concept) {
       throw new Error(`Concept not found: ${conceptId}`);
     }
 
-    // This would call the project's memory.save with the concept data
-    // For now, we'll return a placeholder
-    const memoryId = `mem_linked_${conceptId}_${Date.now()}`;
+    const content = {
+      summary: concept.title,
+      text: concept.body,
+      tags: Array.from(new Set([...concept.tags, 'concept'])),
+      importance: concept.importance
+    };
+
+    const link = this.db.prepare('SELECT * FROM concept_links WHERE concept_id = ? AND project_id = ?')
+      .get(conceptId, projectId) as ConceptLink | undefined;
+
+    if (link && memoryDb.get(link.memory_id)) {
+      if (!options.refresh) {
+        return { memoryId: link.memory_id, action: 'unchanged' };
+      }
+
+      const result = memoryDb.update(link.memory_id, content);
+      if (!result.ok) {
+        throw new Error(result.message);
+      }
+      this.db.prepare('UPDATE concept_links SET synced_at = ? WHERE concept_id = ? AND project_id = ?')
+        .run(concept.updated_at, conceptId, projectId);
+      logger.info(`Refreshed memory ${link.memory_id} from concept ${conceptId}`);
+      return { memoryId: link.memory_id, action: 'refreshed' };
+    }
+
+    // Never dedupe: a memory with the same summary is unrelated to the concept
+    const memory = memoryDb.save(content, { dedupe: false });
+    this.db.prepare(`
+      INSERT OR REPLACE INTO concept_links (concept_id, project_id, memory_id, synced_at, linked_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(conceptId, projectId, memory.id, concept.updated_at, Date.now());
+
+    logger.info(`Linked concept ${conceptId} to project ${projectId} as ${memory.id}`);
+    return { memoryId: memory.id, action: 'created' };
+  }
+
+  /**
+   * Link status for memories of a project that were copied from this store's concepts
+   */
+  getLinkedMemories(projectId: string, memoryIds?: string[]): ConceptLinkStatus[] {
+    let query = `
+      SELECT l.*, c.updated_at AS concept_updated_at
+      FROM concept_links l
+      JOIN concepts c ON c.id = l.concept_id
+      WHERE l.project_id = ?
+    `;
+    const queryParams: any[] = [projectId];
+    if (memoryIds) {
+      if (memoryIds.length === 0) return [];
+      query += ` AND l.memory_id IN (${memoryIds.map(() => '?').join(',')})`;
+      queryParams.push(...memoryIds);
+    }
+
+    return (this.db.prepare(query).all(...queryParams) as any[]).map(row => ({
+      concept_id: row.concept_id,
+      project_id: row.project_id,
+      memory_id: row.memory_id,
+      synced_at: row.synced_at,
+      linked_at: row.linked_at,
+      origin: this.origin,
+      status: row.concept_updated_at > row.synced_at ? 'updated' : 'current',
+      concept_updated_at: row.concept_updated_at
+    }));
+  }
+
+  /**
+   * Concept links for a project's memories, from its own store and the library
+   */
+  static linksForMemories(projectId: string, memoryIds: string[]): Map<string, ConceptLinkStatus> {
+    const links = [
+      ...ConceptStore.getInstance(projectId).getLinkedMemories(projectId, memoryIds),
+      ...ConceptStore.getGlobal().getLinkedMemories(projectId, memoryIds)
+    ];
+    return new Map(links.map(link => [link.memory_id, link]));
+  }
+
+  /**
+   * Link a new concept to existing ones sharing enough of its tags
+   */
+  private relateByTags(conceptId: string, tags: string[]) {
+    if (tags.length === 0) return;
+
+    const others = this.db.prepare('SELECT id, tags FROM concepts WHERE id != ?').all(conceptId) as any[];
+    for (const other of others) {
+      const otherTags: string[] = JSON.parse(other.tags);
+      const overlap = tags.filter(t => otherTags.includes(t)).length;
+      const strength = overlap / Math.max(tags.length, otherTags.length);
+      if (strength > 0.3) {
+        this.addRelationships(conceptId, [other.id], 'related', strength);
+      }
+    }
+  }
+
+  private enrichWithRelated(results: ConceptSearchResult[]): ConceptSearchResult[] {
+    const enriched = [...results];
+    const seen = new Set(results.map(r => r.concept.id));
+    const stmt = this.db.prepare(`
+      SELECT c.*, r.strength
+      FROM concept_relationships r
+      JOIN concepts c ON c.id = CASE WHEN r.concept_id = ? THEN r.related_id ELSE r.concept_id END
+      WHERE (r.concept_id = ? OR r.related_id = ?) AND r.relationship_type != 'conflicts'
+      ORDER BY r.strength DESC
+      LIMIT 2
+    `);
+
+    for (const result of results.slice(0, 3)) {
+      const id = result.concept.id;
+      for (const row of stmt.all(id, id, id) as any[]) {
+        if (seen.has(row.id)) continue;
+        seen.add(row.id);
+        enriched.push({
+          concept: this.rowToConcept(row),
+          score: result.score * row.strength * 0.5,
+          origin: this.origin,
+          snippet: `[Related to: ${result.concept.title}]`,
+          relatedTo: id
+        });
+      }
+    }
+
+    return enriched.sort((a, b) => b.score - a.score);
+  }
+
+  private generateTitle(text: string): string {
+    const words = text.split(' ').slice(0, 5).join(' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private extractTags(text: string): string[] {
+    const keywords = text.toLowerCase()
+      .split(/\s+/)
+      .filter(word => word.length > 4)
+      .filter(word => !['should', 'would', 'could', 'might', 'must'].includes(word))
+      .slice(0, 5);
     
-    logger.info(`Linked concept ${conceptId} to project ${projectId} as ${memoryId}`);
-    return { memoryId };
+    return [...new Set(keywords)];
   }
 
   private generateConceptId(title: string): string {
@@ -423,7 +1260,12 @@ export class ConceptStore {
       tags: JSON.parse(row.tags),
       importance: row.importance,
       created_at: row.created_at,
-      updated_at: row.updated_at
+      updated_at: row.updated_at,
+      usage_count: row.usage_count || 0,
+      last_used: row.last_used ?? undefined,
+      source: row.source || 'manual',
+      confidence: row.confidence ?? 1.0,
+      review_status: row.review_status || 'accepted'
     };
   }
 
@@ -0,0 +1,135 @@
+/**
+ * Heuristic contradiction detection between memories and concepts.
+ *
+ * Two kinds of conflict are recognised:
+ * - directives with opposite polarity on the same subject
+ *   ("always use Redis for sessions" vs "never use Redis")
+ * - key/value tags with the same key and different values
+ *   (db:postgres vs db:mysql)
+ */
+
+export type ConflictItemKind = 'memory' | 'concept';
+
+export interface ConflictItem {
+  id: string;
+  kind: ConflictItemKind;
+  text: string;
+  tags: string[];
+}
+
+export interface DetectedConflict {
+  id: string;
+  kind: ConflictItemKind;
+  reason: string;
+}
+
+interface Directive {
+  polarity: 'positive' | 'negative';
+  subject: string[];
+  phrase: string;
+}
+
+const NEGATIVE = /\b(never|must not|mustn't|should not|shouldn't|do not|don't|avoid|no longer)\s+([^.;!?\n]+)/gi;
+// "must"/"should" followed by "not" are negative directives, handled above
+const POSITIVE = /\b(always|must|should)\b(?!\s+not\b)\s+([^.;!?\n]+)/gi;
+
+const SUBJECT_STOPWORDS = new Set([
+  'a', 'an', 'the', 'to', 'for', 'in', 'on', 'of', 'with', 'by', 'at', 'as', 'be', 'is', 'are',
+  'and', 'or', 'it', 'its', 'this', 'that', 'these', 'those', 'when', 'any', 'all', 'our', 'we',
+  'you', 'your', 'use', 'using', 'used', 'do', 'make', 'have', 'been', 'from', 'into', 'before',
+  'after', 'more', 'than', 'them', 'they', 'their', 'also', 'just', 'only', 'still'
+]);
+
+// Subjects are compared on their first few content words
+const SUBJECT_WORDS = 5;
+
+// Scope tags say where an item applies, not what it claims, so differing values never conflict
+const SCOPE_TAG_KEYS = new Set(['package']);
+
+export function extractDirectives(text: string): Directive[] {
+  const directives: Directive[] = [];
+  for (const [pattern, polarity] of [[NEGATIVE, 'negative'], [POSITIVE, 'positive']] as const) {
+    for (const match of text.matchAll(pattern)) {
+      const subject = subjectWords(match[2]);
+      if (subject.length > 0) {
+        directives.push({ polarity, subject, phrase: match[0].trim() });
+      }
+    }
+  }
+  return directives;
+}
+
+/**
+ * Words worth searching for when looking up items that might conflict
+ */
+export function conflictSearchTerms(item: Pick<ConflictItem, 'text' | 'tags'>): string[] {
+  const terms = new Set<string>();
+  for (const directive of extractDirectives(item.text)) {
+    directive.subject.forEach(word => terms.add(word));
+  }
+  for (const tag of item.tags) {
+    const pair = splitTag(tag);
+    if (pair) terms.add(pair.key);
+  }
+  return Array.from(terms).filter(term => /^\w+$/.test(term));
+}
+
+export function findConflicts(item: ConflictItem, candidates: ConflictItem[]): DetectedConflict[] {
+  const directives = extractDirectives(item.text);
+  const tagPairs = item.tags.map(splitTag).filter((p): p is { key: string; value: string } => p !== null);
+  const conflicts: DetectedConflict[] = [];
+
+  for (const candidate of candidates) {
+    if (candidate.id === item.id && candidate.kind === item.kind) continue;
+
+    const reason = directiveConflict(directives, extractDirectives(candidate.text))
+      ?? tagConflict(tagPairs, candidate.tags);
+    if (reason) {
+      conflicts.push({ id: candidate.id, kind: candidate.kind, reason });
+    }
+  }
+
+  return conflicts;
+}
+
+function directiveConflict(ours: Directive[], theirs: Directive[]): string | null {
+  for (const a of ours) {
+    for (const b of theirs) {
+      if (a.polarity === b.polarity) continue;
+
+      const shared = a.subject.filter(word => b.subject.includes(word));
+      if (shared.length > 0 && shared.length / Math.min(a.subject.length, b.subject.length) >= 0.6) {
+        return `"${a.phrase}" contradicts "${b.phrase}"`;
+      }
+    }
+  }
+  return null;
+}
+
+function tagConflict(ours: Array<{ key: string; value: string }>, theirTags: string[]): string | null {
+  for (const theirs of theirTags.map(splitTag)) {
+    if (!theirs) continue;
+    const clash = ours.find(pair => pair.key === theirs.key && pair.value !== theirs.value);
+    if (clash) {
+      return `tag ${clash.key}=${clash.value} contradicts ${theirs.key}=${theirs.value}`;
+    }
+  }
+  return null;
+}
+
+function subjectWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9_-]+/)
+    .filter(word => word.length > 1 && !SUBJECT_STOPWORDS.has(word))
+    .slice(0, SUBJECT_WORDS)
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+/**
+ * "db:postgres" or "db=postgres" -> { key: 'db', value: 'postgres' }
+ */
+function splitTag(tag: string): { key: string; value: string } | null {
+  const match = tag.toLowerCase().match(/^([\w-]+)[:=](.+)$/);
+  return match && !SCOPE_TAG_KEYS.has(match[1]) ? { key: match[1], value: match[2].trim() } : null;
+}
\ No newline at end of file
@@ -1,10 +1,30 @@
-import { MemoryDatabase, Memory, SearchResult } from './database.js';
-import { ConceptStore, Concept } from './concept-store.js';
+import { MemoryDatabase, Memory, SearchResult, usageSignals } from './database.js';
+import { ConceptStore, Concept, ConceptOrigin } from './concept-store.js';
 import { MCPLogger as Logger } from '../utils/mcp-logger.js';
+import { Tokenizer, ApproximateBpeTokenizer, ByteCounter } from './tokenizer.js';
+import { Embedder, HashedNgramEmbedder, cosineSimilarity } from './embeddings.js';
+import {
+  RankingConfig,
+  RankingProfile,
+  RankingWeights,
+  loadRankingConfig,
+  resolveRankingProfile
+} from './ranking-profile.js';
 import path from 'path';
 
 const logger = new Logger('ContextBroker');
 
+// Truncated items must keep at least this much of their text to be worth including
+const MIN_TRUNCATED_SNIPPET_CHARS = 40;
+
+type BudgetUnit = 'bytes' | 'tokens';
+
+interface Budget {
+  unit: BudgetUnit;
+  limit: number;
+  measure: (text: string) => number;
+}
+
 export interface ContextInjection {
   id: string;
   type: 'memory' | 'concept';
@@ -13,48 +33,132 @@ export interface ContextInjection {
   score: number;
   source: string;
   byteSize: number;
+  tokenCount: number;
+  /** Contribution of each scoring component; they add up to score */
+  scoreBreakdown: ScoreBreakdown;
+  /** Cut down to summary plus snippet to fit the remaining budget */
+  truncated?: boolean;
 }
 
+export type ScoreBreakdown = Record<string, number>;
+
 export interface ContextPreview {
   injections: ContextInjection[];
   budgetUsed: number;
   budgetLimit: number;
+  budgetUnit: BudgetUnit;
   topK: number;
+  /** Ranking preset the scores were computed with */
+  profile: string;
   stats: {
     projectMatches: number;
     pathMatches: number;
     conceptMatches: number;
     totalCandidates: number;
+    truncated: number;
+    droppedRedundant: RedundantCandidate[];
   };
 }
 
+export interface RedundantCandidate {
+  id: string;
+  type: 'memory' | 'concept';
+  summary: string;
+  /** The already-selected item it repeats */
+  similarTo: string;
+  similarity: number;
+}
+
+export interface ContextInjectResult {
+  markdown: string;
+  byteSize: number;
+  tokenCount: number;
+  budgetUsed: number;
+  budgetLimit: number;
+  budgetUnit: BudgetUnit;
+  injected: Array<Pick<ContextInjection, 'id' | 'type' | 'summary' | 'source'>>;
+}
+
+export interface ContextParams {
+  open_files?: string[];
+  task: string;
+  budget_bytes?: number;
+  /** Budget in model tokens; takes precedence over budget_bytes */
+  budget_tokens?: number;
+  top_k?: number;
+  mode?: 'hard' | 'soft' | 'smart';
+  /** Include a per-component score breakdown for each candidate */
+  explain?: boolean;
+  /** Monorepo package to draw memories from (see SearchParams.package) */
+  package?: string;
+  /** Git branch being worked on; memories saved on it rank higher */
+  branch?: string;
+}
+
 export class ContextBroker {
   private memoryDb: MemoryDatabase;
-  private conceptStore: ConceptStore;
+  private ownsMemoryDb: boolean;
   private projectId: string;
   private projectRoot: string;
+  private tokenizer: Tokenizer = new ApproximateBpeTokenizer();
+  // Used only to compare candidates with each other, independent of search settings
+  private similarityEmbedder: Embedder = new HashedNgramEmbedder();
+  private rankingConfig: RankingConfig;
+  // Active ranking profile: scoring weights plus selection thresholds
+  private contextRules: RankingProfile;
 
-  constructor(projectRoot: string, projectId: string) {
+  /**
+   * Pass an open MemoryDatabase to share its connection; otherwise the broker
+   * opens (and closes) its own.
+   */
+  constructor(projectRoot: string, projectId: string, memoryDb?: MemoryDatabase) {
     this.projectRoot = projectRoot;
     this.projectId = projectId;
-    this.memoryDb = new MemoryDatabase(projectRoot, projectId);
-    this.conceptStore = ConceptStore.getInstance(projectId);
+    this.memoryDb = memoryDb || new MemoryDatabase(projectRoot, projectId);
+    this.ownsMemoryDb = !memoryDb;
+    this.rankingConfig = loadRankingConfig(projectRoot);
+
+    try {
+      this.contextRules = resolveRankingProfile(this.rankingConfig);
+    } catch (error) {
+      logger.warn('Invalid ranking preset in config, using defaults:', error);
+      this.contextRules = resolveRankingProfile({});
+    }
+  }
+
+  /**
+   * Rank with a named preset from .kratos/config.yaml or the built-ins
+   * (default, debugging, architecture, onboarding). Throws if unknown.
+   */
+  usePreset(name: string) {
+    this.contextRules = resolveRankingProfile(this.rankingConfig, name);
+  }
+
+  getRankingConfig(): RankingConfig {
+    return this.rankingConfig;
+  }
+
+  /**
+   * Replace the tokenizer used for token budgets (e.g. with an exact one for
+   * the target model)
+   */
+  setTokenizer(tokenizer: Tokenizer) {
+    this.tokenizer = tokenizer;
   }
 
-  async preview(params: {
-    open_files?: string[];
-    task: string;
-    budget_bytes?: number;
-    top_k?: number;
-    mode?: 'hard' | 'soft' | 'smart';
-  }): Promise<ContextPreview> {
+  async preview(params: ContextParams): Promise<ContextPreview> {
+    return this.select(params, this.resolveBudget(params));
+  }
+
+  private async select(params: ContextParams, budget: Budget): Promise<ContextPreview> {
     // Normalize parameter names and provide defaults
     const {
       task,
       open_files = [],
-      budget_bytes = 2048,
       top_k = 10,
-      mode = 'smart'
+      mode = 'smart',
+      package: packageName,
+      branch
     } = params;
     
     // Extract path prefixes from open files
@@ -65,10 +169,15 @@ export class ContextBroker {
     
     // Search memories with improved query
     // For single words or short queries, also search in tags
+    // The OR-joined keywords are plain search terms, not a structured query,
+    // so memories that only match semantically are kept
     let memoryResults = this.memoryDb.search({
       q: searchQuery,
       k: 50, // Get more candidates for scoring
-      require_path_match: false
+      structured: false,
+      require_path_match: false,
+      package: packageName,
+      boost_branch: branch
     });
     
     // If we get no results with wildcard, try without wildcard
@@ -76,69 +185,123 @@ export class ContextBroker {
       memoryResults = this.memoryDb.search({
         q: searchQuery.slice(0, -1),
         k: 50,
-        require_path_match: false
+        structured: false,
+        require_path_match: false,
+        package: packageName,
+        boost_branch: branch
       });
     }
 
     // Search concepts (based on mode)
-    let conceptResults: Array<{ concept: Concept; score: number }> = [];
+    let conceptResults: Array<{ concept: Concept; score: number; origin: ConceptOrigin }> = [];
     if (mode === 'smart' || mode === 'soft') {
-      // In smart mode: use allowlist
+      // In smart mode: project concepts plus allowlisted library concepts
       // In soft mode: include all relevant concepts
-      const allowlist = mode === 'smart' ? await this.getProjectAllowlist() : undefined;
-      
-      const concepts = this.conceptStore.search({
+      const concepts = ConceptStore.searchAll(this.projectId, {
         q: searchQuery, // Use the same improved query
         k: 20,
-        allowlist,
-        projectId: mode === 'smart' ? this.projectId : undefined
+        allowlistedOnly: mode === 'smart',
+        // Discovered concepts are not injected until someone has reviewed them
+        reviewedOnly: true
       });
-      
-      // Filter by minimum score threshold
-      conceptResults = concepts
-        .filter(c => c.score > 0.5) // Only include relevant concepts
-        .map(c => ({ concept: c.concept, score: c.score }));
+
+      // Every FTS match is a candidate; scoring and the budget decide what goes in
+      conceptResults = concepts.map(c => ({ concept: c.concept, score: c.score, origin: c.origin }));
     }
 
     // Score and rank all candidates
     const scoredCandidates = [
-      ...this.scoreMemories(memoryResults, pathPrefixes, task),
+      ...this.scoreMemories(memoryResults, pathPrefixes, task, branch),
       ...this.scoreConcepts(conceptResults, task)
     ].sort((a, b) => b.score - a.score);
 
     // Apply budget and topK constraints
-    const selected = this.selectByBudget(scoredCandidates, budget_bytes, top_k);
+    const { selected, redundant } = this.selectByBudget(scoredCandidates, budget, top_k);
     
     // Calculate stats
     const stats = {
       projectMatches: memoryResults.filter(r => r.memory.project_id === this.projectId).length,
       pathMatches: memoryResults.filter(r => this.hasPathMatch(r.memory.paths, pathPrefixes)).length,
       conceptMatches: conceptResults.length,
-      totalCandidates: scoredCandidates.length
+      totalCandidates: scoredCandidates.length,
+      truncated: selected.filter(inj => inj.truncated).length,
+      droppedRedundant: redundant
     };
 
     return {
       injections: selected,
-      budgetUsed: selected.reduce((sum, inj) => sum + inj.byteSize, 0),
-      budgetLimit: budget_bytes,
+      budgetUsed: selected.reduce((sum, inj) => sum + budget.measure(inj.content), 0),
+      budgetLimit: budget.limit,
+      budgetUnit: budget.unit,
       topK: top_k,
+      profile: this.contextRules.name,
       stats
     };
   }
 
+  /**
+   * Render the selected context as one markdown block. The header and
+   * separators count against the budget: selection is re-run with their
+   * size reserved, and trailing items are dropped as a last resort.
+   */
+  async inject(params: ContextParams): Promise<ContextInjectResult> {
+    const budget = this.resolveBudget(params);
+
+    const render = (items: ContextInjection[]) => items.length === 0 ? '' : [
+      `# Relevant context (${items.length} ${items.length === 1 ? 'item' : 'items'})`,
+      ...items.map(item => item.content)
+    ].join('\n\n---\n\n');
+
+    let items: ContextInjection[] = [];
+    let markdown = '';
+    let reserved = 0;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const selection = await this.select(params, { ...budget, limit: budget.limit - reserved });
+      items = [...selection.injections];
+      markdown = render(items);
+      if (budget.measure(markdown) <= budget.limit) break;
+      reserved = budget.measure(markdown) - selection.budgetUsed;
+    }
+
+    while (items.length > 0 && budget.measure(markdown) > budget.limit) {
+      items.pop();
+      markdown = render(items);
+    }
+
+    this.memoryDb.recordUsage(items.filter(item => item.type === 'memory').map(item => item.id), 'injected');
+
+    const usedConcepts = items.filter(item => item.type === 'concept');
+    ConceptStore.getGlobal().trackUsage(usedConcepts.filter(item => item.source.startsWith('global:')).map(item => item.id));
+    ConceptStore.getInstance(this.projectId).trackUsage(usedConcepts.filter(item => !item.source.startsWith('global:')).map(item => item.id));
+
+    return {
+      markdown,
+      byteSize: Buffer.byteLength(markdown, 'utf8'),
+      tokenCount: this.tokenizer.count(markdown),
+      budgetUsed: budget.measure(markdown),
+      budgetLimit: budget.limit,
+      budgetUnit: budget.unit,
+      injected: items.map(({ id, type, summary, source }) => ({ id, type, summary, source }))
+    };
+  }
+
   private scoreMemories(
     results: SearchResult[],
     pathPrefixes: string[],
-    task: string
+    task: string,
+    branch?: string
   ): ContextInjection[] {
+    const w = this.contextRules.weights;
+
     return results.map(result => {
       const memory = result.memory;
       
-      // Base scoring formula from senior dev's spec
-      let score = 0;
+      // Base scoring formula from senior dev's spec; each term is recorded so
+      // the total can be explained component by component
+      const breakdown: ScoreBreakdown = {};
       
       // Project match bonus
-      score += 1.5 * +(memory.project_id === this.projectId);
+      breakdown.project_match = w.project_match * +(memory.project_id === this.projectId);
       
       // Check if single-word query for special handling
       const words = task.toLowerCase().split(/\s+/).filter(w => w.length > 2);
@@ -149,37 +312,45 @@ export class ContextBroker {
       
       if (isSingleWord && pathScore > 0) {
         // For single-word queries with path match, make path DOMINANT
-        score += 10.0 * pathScore;  // Massive boost
+        breakdown.path_match = w.single_word_path_match * pathScore;  // Massive boost
       } else {
-        // Normal path boost for multi-word queries
-        score += 2.0 * pathScore;
-        
-        // Extra boost for strong path matches
-        if (pathScore > 0.5) {
-          score += 2.0; // Additional boost for strong path alignment
-        }
+        // Normal path boost for multi-word queries, plus extra for strong path alignment
+        breakdown.path_match = w.path_match * pathScore + (pathScore > 0.5 ? w.strong_path_bonus : 0);
       }
       
       // Task relevance (tag matching)
       const tagScore = this.taskMatchStrength(memory.tags, task);
-      score += 0.8 * tagScore;
+      breakdown.tag_match = w.tag_match * tagScore;
       
       // Single-word query boost if tag matches
       if (isSingleWord && tagScore > 0) {
-        score += 3.0; // Strong boost for single-word matches
+        breakdown.tag_match += w.single_word_tag_bonus; // Strong boost for single-word matches
       }
       
       // Recency bonus (decay over time)
-      score += 0.6 * this.recencyScore(memory.created_at);
+      breakdown.recency = w.recency * this.recencyScore(memory.created_at);
       
       // Importance weight
-      score += 0.6 * (memory.importance || 3);
+      breakdown.importance = w.importance * (memory.importance || 3);
       
       // Cross-project penalty
-      score -= 1.0 * +(memory.project_id !== this.projectId);
+      breakdown.cross_project = -w.cross_project_penalty * +(memory.project_id !== this.projectId);
       
-      // FTS score integration
-      score += Math.min(result.score / 10, 1.0); // Normalize and cap FTS contribution
+      // Search relevance (hybrid BM25 + embedding similarity, already normalised to 0..1),
+      // taken before the search's own superseded cut: the weight below replaces it
+      const relevance = result.score - (result.score_breakdown?.superseded ?? 0);
+      breakdown.search_relevance = w.search_relevance * Math.min(relevance, 1.0);
+
+      // Superseded memories are history, not guidance
+      breakdown.superseded = -w.superseded_penalty * +(result.superseded_by !== undefined && result.superseded_by.length > 0);
+
+      // Memories that proved useful before, or were voted down
+      const signals = usageSignals(result.usage);
+      breakdown.usage = w.usage * signals.usage;
+      breakdown.feedback = w.feedback * signals.feedback;
+
+      // Work in progress on the current branch
+      breakdown.branch_match = w.branch_match * +(branch !== undefined && memory.branch === branch);
 
       const content = this.formatMemoryForInjection(memory);
       
@@ -188,31 +359,35 @@ export class ContextBroker {
         type: 'memory' as const,
         summary: memory.summary,
         content,
-        score,
+        score: sumBreakdown(breakdown),
+        scoreBreakdown: breakdown,
         source: `${memory.project_id}:${memory.id}`,
-        byteSize: Buffer.byteLength(content, 'utf8')
+        byteSize: Buffer.byteLength(content, 'utf8'),
+        tokenCount: this.tokenizer.count(content)
       };
     });
   }
 
   private scoreConcepts(
-    results: Array<{ concept: Concept; score: number }>,
+    results: Array<{ concept: Concept; score: number; origin: ConceptOrigin }>,
     task: string
   ): ContextInjection[] {
-    return results.map(({ concept, score: ftsScore }) => {
-      let score = 0;
+    const w = this.contextRules.weights;
+
+    return results.map(({ concept, score: ftsScore, origin }) => {
+      const breakdown: ScoreBreakdown = {};
       
       // Concept base score (global knowledge value)
-      score += 2.0; // Concepts are valuable
+      breakdown.concept_base = w.concept_base; // Concepts are valuable
       
       // Task relevance
-      score += 0.8 * this.taskMatchStrength(concept.tags, task);
+      breakdown.tag_match = w.concept_tag_match * this.taskMatchStrength(concept.tags, task);
       
       // Importance
-      score += 0.6 * concept.importance;
+      breakdown.importance = w.concept_importance * concept.importance;
       
       // FTS score
-      score += Math.min(ftsScore / 10, 1.0);
+      breakdown.search_relevance = w.concept_search_relevance * Math.min(ftsScore / 10, 1.0);
       
       // No recency penalty for concepts (timeless knowledge)
 
@@ -223,38 +398,137 @@ export class ContextBroker {
         type: 'concept' as const,
         summary: concept.title,
         content,
-        score,
-        source: `global:${concept.id}`,
-        byteSize: Buffer.byteLength(content, 'utf8')
+        score: sumBreakdown(breakdown),
+        scoreBreakdown: breakdown,
+        source: `${origin === 'global' ? 'global' : this.projectId}:${concept.id}`,
+        byteSize: Buffer.byteLength(content, 'utf8'),
+        tokenCount: this.tokenizer.count(content)
       };
     });
   }
 
+  private resolveBudget(params: ContextParams): Budget {
+    if (params.budget_tokens !== undefined) {
+      return { unit: 'tokens', limit: params.budget_tokens, measure: text => this.tokenizer.count(text) };
+    }
+    const bytes = new ByteCounter();
+    return { unit: 'bytes', limit: params.budget_bytes ?? 2048, measure: text => bytes.count(text) };
+  }
+
+  /**
+   * Maximal marginal relevance: repeatedly pick the candidate that best trades
+   * relevance against similarity to what is already selected, so one topic
+   * cannot fill the whole budget. Near-duplicates are dropped outright.
+   */
   private selectByBudget(
     candidates: ContextInjection[],
-    budgetLimit: number,
+    budget: Budget,
     topK: number
-  ): ContextInjection[] {
+  ): { selected: ContextInjection[]; redundant: RedundantCandidate[] } {
     const selected: ContextInjection[] = [];
+    const selectedVectors: Float32Array[] = [];
+    const redundant: RedundantCandidate[] = [];
     let budgetUsed = 0;
-    
-    // Greedy selection with deduplication
-    const seen = new Set<string>();
-    
-    for (const candidate of candidates) {
-      if (selected.length >= topK) break;
-      if (budgetUsed + candidate.byteSize > budgetLimit) break;
-      
-      // Dedupe by normalized summary
-      const dedupeKey = this.normalizeForDedupe(candidate.summary);
-      if (seen.has(dedupeKey)) continue;
+
+    const lambda = this.contextRules.mmr_lambda;
+    const maxScore = Math.max(...candidates.map(c => c.score), 0);
+    const minScore = Math.min(...candidates.map(c => c.score), 0);
+    const relevance = (c: ContextInjection) => maxScore > minScore ? (c.score - minScore) / (maxScore - minScore) : 1;
+
+    const pool = candidates.map(candidate => ({
+      candidate,
+      vector: this.similarityEmbedder.embed(candidate.content),
+      dedupeKey: this.normalizeForDedupe(candidate.summary)
+    }));
+    const seen = new Map<string, string>();
+
+    while (pool.length > 0 && selected.length < topK) {
+      // Find the candidate with the best marginal relevance
+      let bestIndex = 0;
+      let bestValue = -Infinity;
+      let bestSimilarity = { value: 0, to: '' };
+      pool.forEach((entry, index) => {
+        let maxSimilarity = { value: 0, to: '' };
+        selectedVectors.forEach((vector, i) => {
+          const similarity = cosineSimilarity(entry.vector, vector);
+          if (similarity > maxSimilarity.value) maxSimilarity = { value: similarity, to: selected[i].id };
+        });
+
+        const value = lambda * relevance(entry.candidate) - (1 - lambda) * maxSimilarity.value;
+        if (value > bestValue) {
+          bestValue = value;
+          bestIndex = index;
+          bestSimilarity = maxSimilarity;
+        }
+      });
+
+      const [{ candidate, vector, dedupeKey }] = pool.splice(bestIndex, 1);
+
+      // Same normalized summary, or text too close to a selected item
+      const duplicateOf = seen.get(dedupeKey);
+      if (duplicateOf || bestSimilarity.value >= this.contextRules.dedupe_threshold) {
+        redundant.push({
+          id: candidate.id,
+          type: candidate.type,
+          summary: candidate.summary,
+          similarTo: duplicateOf || bestSimilarity.to,
+          similarity: duplicateOf ? 1 : Number(bestSimilarity.value.toFixed(3))
+        });
+        continue;
+      }
+
+      // Items that do not fit whole are cut down rather than ending the selection
+      const remaining = budget.limit - budgetUsed;
+      const item = budget.measure(candidate.content) <= remaining
+        ? candidate
+        : this.truncateToFit(candidate, remaining, budget);
+      if (!item) continue;
       
-      selected.push(candidate);
-      budgetUsed += candidate.byteSize;
-      seen.add(dedupeKey);
+      selected.push(item);
+      selectedVectors.push(vector);
+      budgetUsed += budget.measure(item.content);
+      seen.set(dedupeKey, item.id);
     }
     
-    return selected;
+    return { selected, redundant };
+  }
+
+  /**
+   * Shrink an injection to its heading plus the longest text snippet that
+   * fits, or null if not even a minimal snippet fits
+   */
+  private truncateToFit(candidate: ContextInjection, remaining: number, budget: Budget): ContextInjection | null {
+    const heading = candidate.content.split('\n')[0];
+    const body = candidate.content.substring(heading.length).trim();
+    const build = (chars: number) => `${heading}\n\n${body.substring(0, chars).trimEnd()}...`;
+
+    const minChars = Math.min(MIN_TRUNCATED_SNIPPET_CHARS, body.length);
+    if (budget.measure(build(minChars)) > remaining) return null;
+
+    // Binary search for the longest prefix that fits
+    let low = minChars;
+    let high = body.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (budget.measure(build(mid)) <= remaining) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    // Prefer to cut at a word boundary
+    const lastSpace = body.lastIndexOf(' ', low);
+    const chars = lastSpace > minChars && low - lastSpace < 20 ? lastSpace : low;
+    const content = build(chars);
+
+    return {
+      ...candidate,
+      content,
+      byteSize: Buffer.byteLength(content, 'utf8'),
+      tokenCount: this.tokenizer.count(content),
+      truncated: true
+    };
   }
 
   private inferPathPrefixes(openFiles: string[]): string[] {
@@ -331,8 +605,10 @@ export class ContextBroker {
     ]);
     
     // Extract meaningful words
+    // Drop query syntax characters so task text is never parsed as a structured query
     const words = task.toLowerCase()
       .split(/\s+/)
+      .map(word => word.replace(/[()":*]/g, '').replace(/^-+/, ''))
       .filter(word => {
         // Keep word if it's not a stop word and has meaningful length
         return word.length > 2 && !stopWords.has(word);
@@ -346,7 +622,7 @@ export class ContextBroker {
     
     // If we have keywords, join them with OR for FTS
     // If no keywords extracted, fallback to original task
-    return words.length > 0 ? words.join(' OR ') : task;
+    return words.length > 0 ? words.join(' OR ') : task.replace(/[^\w\s]/g, ' ');
   }
 
   private taskMatchStrength(tags: string[], task: string): number {
@@ -415,38 +691,27 @@ export class ContextBroker {
       .trim();
   }
 
-  private async getProjectAllowlist(): Promise<string[]> {
-    try {
-      const result = this.conceptStore.updateAllowlist({
-        projectId: this.projectId,
-        list: true
-      });
-      return result.allowlist || [];
-    } catch (error) {
-      logger.warn(`Failed to get allowlist for project ${this.projectId}:`, error);
-      return [];
-    }
-  }
-
   // Context rules management
-  private contextRules = {
-    maxMemoryAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-    minImportance: 2,
-    pathBoostMultiplier: 2.0,
-    conceptImportanceThreshold: 3,
-    dedupeThreshold: 0.8
-  };
-
-  getRules() {
-    return { ...this.contextRules };
+  getRules(): RankingProfile {
+    return { ...this.contextRules, weights: { ...this.contextRules.weights } };
   }
 
-  setRules(rules: Partial<typeof this.contextRules>) {
-    Object.assign(this.contextRules, rules);
+  setRules(rules: Partial<Omit<RankingProfile, 'weights'>> & { weights?: Partial<RankingWeights> }) {
+    this.contextRules = {
+      ...this.contextRules,
+      ...rules,
+      weights: { ...this.contextRules.weights, ...rules.weights }
+    };
     logger.info('Context rules updated:', rules);
   }
 
   close() {
-    this.memoryDb.close();
+    if (this.ownsMemoryDb) {
+      this.memoryDb.close();
+    }
   }
+}
+
+function sumBreakdown(breakdown: ScoreBreakdown): number {
+  return Object.values(breakdown).reduce((sum, value) => sum + value, 0);
 }
\ No newline at end of file
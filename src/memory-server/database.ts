@@ -3,9 +3,39 @@ import path from 'path';
 import fs from 'fs-extra';
 import crypto from 'crypto';
 import { MCPLogger as Logger } from '../utils/mcp-logger.js';
+import { diffLines } from '../utils/text-diff.js';
+import {
+  Embedder,
+  HashedNgramEmbedder,
+  cosineSimilarity,
+  vectorToBuffer,
+  bufferToVector
+} from './embeddings.js';
+import { QueryNode, QueryParseError, compileQuery, describeQuery, isStructuredQuery, parseQuery } from './query-language.js';
+import { PathSnapshot } from './staleness.js';
 
 const logger = new Logger('MemoryDB');
 
+// Score multiplier for memories that another memory `supersedes`
+const SUPERSEDED_PENALTY = 0.5;
+
+// Hybrid ranking: weight of normalised BM25 vs cosine similarity
+const HYBRID_LEXICAL_WEIGHT = 0.6;
+const HYBRID_SEMANTIC_WEIGHT = 0.4;
+// Memories with no keyword hit need at least this similarity to be returned
+const MIN_SEMANTIC_SIMILARITY = 0.25;
+const EMBEDDING_TEXT_LIMIT = 4000;
+
+// Usage signals nudge search ranking; they never outweigh a keyword match
+const SEARCH_USAGE_WEIGHT = 0.1;
+const SEARCH_FEEDBACK_WEIGHT = 0.2;
+// Bonus for memories saved on the branch being worked on
+const SEARCH_BRANCH_WEIGHT = 0.1;
+// Uses (retrievals + injections) at which the usage signal saturates
+const USAGE_SATURATION = 32;
+// Times a duplicate save retries its update when a concurrent edit wins the race
+const DEDUPE_UPDATE_ATTEMPTS = 3;
+
 export interface Memory {
   id: string;
   project_id: string;
@@ -18,12 +48,154 @@ export interface Memory {
   updated_at: number;
   ttl?: number;
   expires_at?: number;
+  /** Git branch the memory was saved on; absent outside git and on a detached HEAD */
+  branch?: string;
+  /** HEAD commit when the memory was saved */
+  commit_sha?: string;
+}
+
+export interface MemoryPatch {
+  summary?: string;
+  text?: string;
+  tags?: string[];
+  paths?: string[];
+  importance?: number;
+  ttl?: number | null;
+  branch?: string;
+  commit_sha?: string;
+}
+
+export type MemoryUpdateResult =
+  | { ok: true; memory: Memory }
+  | { ok: false; reason: 'not_found' | 'conflict'; message: string; current?: Memory };
+
+export interface MemoryRevision {
+  revision: number;
+  current: boolean;
+  summary: string;
+  text: string;
+  tags: string[];
+  paths: string[];
+  importance: number;
+  valid_from: number;
+  replaced_at?: number;
+  changed_fields: string[];
+  diff?: string;
+  summary_diff?: { from: string; to: string };
+}
+
+export const MEMORY_LINK_TYPES = [
+  'supersedes',
+  'relates_to',
+  'caused_by',
+  'fixes',
+  'depends_on',
+  'contradicts'
+] as const;
+
+export type MemoryLinkType = typeof MEMORY_LINK_TYPES[number];
+
+export interface MemoryLink {
+  source_id: string;
+  target_id: string;
+  type: MemoryLinkType;
+  note?: string;
+  created_at: number;
+}
+
+export interface LinkedNeighbour {
+  id: string;
+  type: MemoryLinkType;
+  direction: 'out' | 'in';
+  summary: string;
+}
+
+/** Tag prefix marking the monorepo package a memory belongs to */
+export const PACKAGE_TAG_PREFIX = 'package:';
+
+export type MemoryUsageKind = 'retrieved' | 'injected';
+
+export interface MemoryUsage {
+  /** Times the memory was returned by memory_get */
+  retrieved_count: number;
+  /** Times the memory was chosen for a context injection */
+  injected_count: number;
+  helpful_count: number;
+  unhelpful_count: number;
+  last_used_at?: number;
+}
+
+export interface UsageStats {
+  tracked_memories: number;
+  retrievals: number;
+  injections: number;
+  helpful: number;
+  unhelpful: number;
+  most_used: Array<{ id: string; summary: string; uses: number }>;
+}
+
+/**
+ * Usage (0..1, log-scaled) and feedback (-1..1) signals for ranking
+ */
+export function usageSignals(usage?: MemoryUsage): { usage: number; feedback: number } {
+  if (!usage) return { usage: 0, feedback: 0 };
+  const uses = usage.retrieved_count + usage.injected_count;
+  const votes = usage.helpful_count + usage.unhelpful_count;
+  return {
+    usage: Math.min(1, Math.log2(1 + uses) / Math.log2(1 + USAGE_SATURATION)),
+    // +1 in the denominator keeps a single vote from swinging the score fully
+    feedback: (usage.helpful_count - usage.unhelpful_count) / (votes + 1)
+  };
+}
+
+export interface SearchParams {
+  q: string;
+  k?: number;
+  require_path_match?: boolean;
+  tags?: string[];
+  include_expired?: boolean;
+  semantic?: boolean;
+  /** Parse q as a structured query; auto-detected from the syntax when omitted */
+  structured?: boolean;
+  /** Only memories created at or after this time (epoch ms) */
+  created_after?: number;
+  /** Only memories created before this time (epoch ms) */
+  created_before?: number;
+  /** Monorepo package: memories tagged with it, plus those tagged with no package */
+  package?: string;
+  /** Only memories saved on this git branch */
+  branch?: string;
+  /** Rank memories saved on this git branch higher */
+  boost_branch?: string;
 }
 
 export interface SearchResult {
   memory: Memory;
   score: number;
   snippet?: string;
+  bm25?: number;
+  similarity?: number;
+  links?: LinkedNeighbour[];
+  superseded_by?: string[];
+  usage?: MemoryUsage;
+  /** Contribution of each ranking signal; they add up to score */
+  score_breakdown?: Record<string, number>;
+}
+
+export interface MergeReport {
+  merged: number;
+  /** Skipped because this project already has them (same ID, or same summary and paths) */
+  duplicates: number;
+  links: number;
+  revisions: number;
+}
+
+export interface BranchSummary {
+  branch: string;
+  count: number;
+  /** Most recent HEAD commit recorded on the branch */
+  last_commit?: string;
+  last_saved_at: number;
 }
 
 export interface EnhancedSearchResult {
@@ -34,17 +206,33 @@ export interface EnhancedSearchResult {
     fallback_used?: string;
     total_memories_scanned: number;
     search_time_ms: number;
+    structured_query?: string;
+    semantic?: {
+      enabled: boolean;
+      embedder?: string;
+      semantic_only_hits: number;
+    };
   };
 }
 
+function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 export class MemoryDatabase {
   private db: Database.Database;
   private projectId: string;
   private projectRoot: string;
+  private embedder: Embedder | null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
 
   constructor(projectRoot: string, projectId: string) {
     this.projectRoot = projectRoot;
     this.projectId = projectId;
+    this.embedder = process.env.KRATOS_SEMANTIC_SEARCH === 'false' ? null : new HashedNgramEmbedder();
     
     // CRITICAL: Each project gets COMPLETELY ISOLATED database
     // Path: ~/.kratos/projects/{project_id}/databases/memories.db
@@ -58,6 +246,7 @@ export class MemoryDatabase {
     this.db.pragma('foreign_keys = ON');
     
     this.initializeSchema();
+    this.repairLegacyFtsTriggers();
     this.setupTriggers();
     logger.info(`Memory database ISOLATED for project: ${projectId} at ${dbPath}`);
   }
@@ -77,7 +266,9 @@ export class MemoryDatabase {
         updated_at INTEGER NOT NULL,
         ttl INTEGER,
         expires_at INTEGER,
-        dedupe_hash TEXT
+        dedupe_hash TEXT,
+        branch TEXT,
+        commit_sha TEXT
       );
 
       CREATE INDEX IF NOT EXISTS idx_mem_project ON memories(project_id);
@@ -86,6 +277,86 @@ export class MemoryDatabase {
       CREATE INDEX IF NOT EXISTS idx_mem_dedupe ON memories(dedupe_hash);
     `);
 
+    // Git context, added after the table was first released
+    addColumn(this.db, 'memories', 'branch', 'TEXT');
+    addColumn(this.db, 'memories', 'commit_sha', 'TEXT');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_mem_branch ON memories(branch) WHERE branch IS NOT NULL');
+
+    // Revision history - one snapshot per superseded version of a memory
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_revisions (
+        memory_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        summary TEXT NOT NULL,
+        text TEXT NOT NULL,
+        tags TEXT DEFAULT '[]',
+        paths TEXT DEFAULT '[]',
+        importance INTEGER,
+        ttl INTEGER,
+        expires_at INTEGER,
+        valid_from INTEGER NOT NULL,   -- updated_at of the snapshotted version
+        replaced_at INTEGER NOT NULL,  -- when the next version overwrote it
+        PRIMARY KEY (memory_id, revision),
+        FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Typed edges between memories (supersedes, fixes, depends_on, ...)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_links (
+        source_id TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        link_type TEXT NOT NULL DEFAULT 'relates_to',
+        note TEXT,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (source_id, target_id, link_type),
+        FOREIGN KEY (source_id) REFERENCES memories(id) ON DELETE CASCADE,
+        FOREIGN KEY (target_id) REFERENCES memories(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_links_target ON memory_links(target_id);
+    `);
+
+    // Usage signals: retrievals, context injections and explicit feedback
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_usage (
+        memory_id TEXT PRIMARY KEY,
+        retrieved_count INTEGER NOT NULL DEFAULT 0,
+        injected_count INTEGER NOT NULL DEFAULT 0,
+        helpful_count INTEGER NOT NULL DEFAULT 0,
+        unhelpful_count INTEGER NOT NULL DEFAULT 0,
+        last_used_at INTEGER,
+        FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Snapshots of the files each memory refers to, for staleness checks
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_path_snapshots (
+        memory_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        blob_hash TEXT NOT NULL,
+        mtime INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        signature BLOB,
+        recorded_at INTEGER NOT NULL,
+        PRIMARY KEY (memory_id, path),
+        FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Optional embedding index for semantic search (vectors are float32 BLOBs)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_embeddings (
+        memory_id TEXT PRIMARY KEY,
+        embedder TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        vector BLOB NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+      );
+    `);
+
     // Full-text search virtual table - INCLUDING TAGS for better search
     this.db.exec(`
       CREATE VIRTUAL TABLE IF NOT EXISTS mem_fts USING fts5(
@@ -107,12 +378,24 @@ export class MemoryDatabase {
                 END);
       END;
 
+      -- External-content FTS5 tables must be told the OLD values to remove,
+      -- otherwise the index drifts out of sync on every update
       CREATE TRIGGER IF NOT EXISTS mem_fts_delete AFTER DELETE ON memories BEGIN
-        DELETE FROM mem_fts WHERE rowid = old.rowid;
+        INSERT INTO mem_fts(mem_fts, rowid, summary, text, tags)
+        VALUES ('delete', old.rowid, old.summary, old.text,
+                CASE WHEN json_array_length(old.tags) > 0
+                     THEN (SELECT group_concat(value, ' ') FROM json_each(old.tags))
+                     ELSE ''
+                END);
       END;
 
       CREATE TRIGGER IF NOT EXISTS mem_fts_update AFTER UPDATE ON memories BEGIN
-        DELETE FROM mem_fts WHERE rowid = old.rowid;
+        INSERT INTO mem_fts(mem_fts, rowid, summary, text, tags)
+        VALUES ('delete', old.rowid, old.summary, old.text,
+                CASE WHEN json_array_length(old.tags) > 0
+                     THEN (SELECT group_concat(value, ' ') FROM json_each(old.tags))
+                     ELSE ''
+                END);
         INSERT INTO mem_fts(rowid, summary, text, tags) 
         VALUES (new.rowid, new.summary, new.text,
                 CASE WHEN json_array_length(new.tags) > 0 
@@ -123,13 +406,40 @@ export class MemoryDatabase {
     `);
   }
 
+  /**
+   * Older databases were created with triggers that ran a plain DELETE against
+   * the external-content FTS table, which corrupts the index on UPDATE.
+   * Drop them so initializeSchema() recreates the fixed versions, then rebuild.
+   */
+  private repairLegacyFtsTriggers() {
+    const legacy = this.db.prepare(`
+      SELECT name FROM sqlite_master
+      WHERE type = 'trigger' AND name IN ('mem_fts_delete', 'mem_fts_update')
+        AND sql LIKE '%DELETE FROM mem_fts%'
+    `).all() as any[];
+
+    if (legacy.length === 0) return;
+
+    for (const trigger of legacy) {
+      this.db.exec(`DROP TRIGGER IF EXISTS ${trigger.name}`);
+    }
+    this.initializeSchema();
+    this.db.exec("INSERT INTO mem_fts(mem_fts) VALUES ('rebuild')");
+    logger.info('Repaired legacy FTS triggers and rebuilt the search index');
+  }
+
   private setupTriggers() {
     // Auto-cleanup expired memories
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       this.cleanupExpired();
     }, 60 * 60 * 1000); // Every hour
   }
 
+  /**
+   * Store a memory. A memory with the same summary and paths is updated
+   * instead, unless `dedupe` is false: such a memory is always inserted and
+   * never matched by later saves.
+   */
   save(params: {
     summary: string;
     text: string;
@@ -137,7 +447,9 @@ export class MemoryDatabase {
     paths?: string[];
     importance?: number;
     ttl?: number;
-  }): { id: string } {
+    branch?: string | null;
+    commit_sha?: string | null;
+  }, options: { dedupe?: boolean } = {}): Memory {
     // Project isolation is enforced by the database path itself
     // Each project has its own database file, so no cross-contamination is possible
 
@@ -145,16 +457,36 @@ export class MemoryDatabase {
     const id = this.generateId();
     
     // Compute dedupe hash
-    const dedupeHash = this.computeDedupeHash(params.summary, params.paths || []);
+    const dedupeHash = options.dedupe === false ? null : this.computeDedupeHash(params.summary, params.paths || []);
     
     // Check for duplicates
-    const existing = this.db.prepare(
+    const existing = dedupeHash && this.db.prepare(
       'SELECT id FROM memories WHERE dedupe_hash = ? AND project_id = ?'
     ).get(dedupeHash, this.projectId);
     
     if (existing && typeof existing === 'object' && 'id' in existing) {
-      logger.info(`Duplicate memory detected, updating existing: ${(existing as any).id}`);
-      return this.update((existing as any).id as string, params);
+      const existingId = (existing as any).id as string;
+      logger.info(`Duplicate memory detected, updating existing: ${existingId}`);
+
+      // The re-save carries the current git context along with the content
+      const patch: MemoryPatch = {
+        ...params,
+        branch: params.branch || undefined,
+        commit_sha: params.commit_sha || undefined
+      };
+      let updated = this.update(existingId, patch);
+      for (let attempt = 1; !updated.ok && updated.reason === 'conflict' && attempt < DEDUPE_UPDATE_ATTEMPTS; attempt++) {
+        updated = this.update(existingId, patch);
+      }
+
+      if (updated.ok) {
+        return updated.memory;
+      }
+      // Inserting now would leave two rows with the same dedupe hash
+      if (updated.reason === 'conflict') {
+        throw new Error(`Memory ${existingId} kept changing while saving a duplicate of it; retry the save`);
+      }
+      // Deleted in the meantime: save it afresh below
     }
 
     // Calculate expiration
@@ -163,8 +495,9 @@ export class MemoryDatabase {
     const stmt = this.db.prepare(`
       INSERT INTO memories (
         id, project_id, summary, text, tags, paths, 
-        importance, created_at, updated_at, ttl, expires_at, dedupe_hash
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        importance, created_at, updated_at, ttl, expires_at, dedupe_hash,
+        branch, commit_sha
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -179,7 +512,9 @@ export class MemoryDatabase {
       now,
       params.ttl || null,
       expires_at,
-      dedupeHash
+      dedupeHash,
+      params.branch || null,
+      params.commit_sha || null
     );
 
     logger.info(`Memory saved: ${id} - ${params.summary}`);
@@ -196,21 +531,72 @@ export class MemoryDatabase {
       created_at: now,
       updated_at: now,
       ttl: params.ttl,
-      expires_at: expires_at || undefined
+      expires_at: expires_at || undefined,
+      branch: params.branch || undefined,
+      commit_sha: params.commit_sha || undefined
     };
+
+    this.indexEmbedding(memory);
     
     return memory;
   }
 
-  search(params: {
-    q: string;
-    k?: number;
-    require_path_match?: boolean;
-    tags?: string[];
-    include_expired?: boolean;
-  }): SearchResult[] {
-    const k = params.k || 10;
+  /**
+   * Search memories, fusing BM25 keyword relevance with embedding similarity
+   * when an embedder is configured. Scores are normalised to 0..1.
+   */
+  search(params: SearchParams): SearchResult[] {
+    const ast = this.parseStructured(params);
+    if (ast) {
+      return this.hybridRank(params, this.structuredSearch(params, ast), this.structuredRankOptions(ast)).results;
+    }
+    return this.hybridRank(params, this.lexicalSearch(params)).results;
+  }
+
+  searchWithDebug(params: SearchParams): EnhancedSearchResult {
+    const startTime = Date.now();
+
+    const ast = this.parseStructured(params);
+    if (ast) {
+      const ranked = this.hybridRank(params, this.structuredSearch(params, ast), this.structuredRankOptions(ast));
+      return {
+        results: ranked.results,
+        debug_info: {
+          original_query: params.q,
+          queries_tried: [params.q],
+          total_memories_scanned: this.getTotalMemoryCount(),
+          search_time_ms: Date.now() - startTime,
+          structured_query: describeQuery(ast),
+          semantic: ranked.semantic
+        }
+      };
+    }
 
+    const lexical = this.lexicalSearchWithDebug(params);
+    const ranked = this.hybridRank(params, lexical.results);
+
+    return {
+      results: ranked.results,
+      debug_info: {
+        ...lexical.debug_info,
+        fallback_used: lexical.results.length === 0 && ranked.results.length > 0
+          ? 'semantic_only'
+          : lexical.debug_info.fallback_used,
+        search_time_ms: Date.now() - startTime,
+        semantic: ranked.semantic
+      }
+    };
+  }
+
+  /**
+   * Replace the embedder used for semantic search, or pass null to fall back
+   * to keyword-only ranking. Vectors from a different embedder are rebuilt lazily.
+   */
+  setEmbedder(embedder: Embedder | null) {
+    this.embedder = embedder;
+  }
+
+  private lexicalSearch(params: SearchParams): SearchResult[] {
     // Try primary search
     try {
       const results = this.executeSearch(params);
@@ -262,13 +648,7 @@ export class MemoryDatabase {
     return []; // No results found
   }
 
-  searchWithDebug(params: {
-    q: string;
-    k?: number;
-    require_path_match?: boolean;
-    tags?: string[];
-    include_expired?: boolean;
-  }): EnhancedSearchResult {
+  private lexicalSearchWithDebug(params: SearchParams): EnhancedSearchResult {
     const startTime = Date.now();
     const queries_tried: string[] = [];
     let fallback_used: string | undefined;
@@ -377,15 +757,8 @@ export class MemoryDatabase {
     return result.count;
   }
 
-  private executeSearch(params: {
-    q: string;
-    k?: number;
-    require_path_match?: boolean;
-    tags?: string[];
-    include_expired?: boolean;
-  }): SearchResult[] {
+  private executeSearch(params: SearchParams): SearchResult[] {
     const k = params.k || 10;
-    const now = Date.now();
 
     // Build FTS query
     let query = `
@@ -401,26 +774,153 @@ export class MemoryDatabase {
 
     const queryParams: any[] = [this.escapeQuery(params.q), this.projectId];
 
+    const filters = this.buildFilters(params);
+    query += filters.sql;
+    queryParams.push(...filters.params);
+
+    // bm25() is negative with better matches lower, so ascending puts the best first
+    query += ' ORDER BY fts_score ASC, m.importance DESC, m.created_at DESC LIMIT ?';
+    queryParams.push(k);
+
+    const stmt = this.db.prepare(query);
+    const results = stmt.all(...queryParams) as any[];
+
+    return results.map(row => ({
+      memory: this.rowToMemory(row),
+      score: -row.fts_score, // BM25 returns negative scores
+      snippet: row.snippet
+    }));
+  }
+
+  /**
+   * Returns the parsed query when q uses the structured syntax (tag:, path:,
+   * OR...). Parse errors propagate as QueryParseError only when structured
+   * parsing was requested; auto-detected queries fall back to plain search.
+   */
+  private parseStructured(params: SearchParams): QueryNode | null {
+    if (params.structured === false) return null;
+    if (params.structured === true) return parseQuery(params.q);
+    if (!isStructuredQuery(params.q)) return null;
+
+    try {
+      return parseQuery(params.q);
+    } catch (error) {
+      if (error instanceof QueryParseError) {
+        logger.debug(`Searching '${params.q}' as plain text: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a structured query. Free-text terms rank by BM25; queries made only of
+   * field filters rank by importance and recency.
+   */
+  private structuredSearch(params: SearchParams, ast: QueryNode): SearchResult[] {
+    const k = params.k || 10;
+    const compiled = compileQuery(ast);
+    const queryParams: any[] = [];
+
+    let rankJoin = '';
+    if (compiled.rankMatch) {
+      rankJoin = `
+        LEFT JOIN (
+          SELECT rowid, bm25(mem_fts) AS fts_score, snippet(mem_fts, 0, '[', ']', '...', 32) AS snippet
+          FROM mem_fts WHERE mem_fts MATCH ?
+        ) r ON r.rowid = m.rowid`;
+      queryParams.push(compiled.rankMatch);
+    }
+
+    let query = `
+      SELECT m.*, ${compiled.rankMatch ? 'r.fts_score, r.snippet' : '0 AS fts_score, NULL AS snippet'}
+      FROM memories m ${rankJoin}
+      WHERE m.project_id = ? AND ${compiled.where}
+    `;
+    queryParams.push(this.projectId, ...compiled.params);
+
+    const filters = this.buildFilters(params);
+    query += filters.sql;
+    queryParams.push(...filters.params);
+
+    query += ' ORDER BY COALESCE(fts_score, 0) ASC, m.importance DESC, m.created_at DESC LIMIT ?';
+    queryParams.push(k);
+
+    const rows = this.db.prepare(query).all(...queryParams) as any[];
+
+    return rows.map(row => ({
+      memory: this.rowToMemory(row),
+      score: -(row.fts_score ?? 0),
+      snippet: row.snippet ?? row.text.substring(0, 100) + (row.text.length > 100 ? '...' : '')
+    }));
+  }
+
+  /**
+   * Structured queries are exact filters: similarity may reorder matches but
+   * must not add memories the query excludes.
+   */
+  private structuredRankOptions(ast: QueryNode): { semanticOnly: boolean; semanticQuery?: string } {
+    const terms: string[] = [];
+    const collect = (node: QueryNode) => {
+      if (node.type === 'term') terms.push(node.value);
+      else if (node.type === 'and' || node.type === 'or') node.children.forEach(collect);
+    };
+    collect(ast);
+    return { semanticOnly: false, semanticQuery: terms.join(' ') };
+  }
+
+  /**
+   * SQL filters shared by keyword and semantic search (expects the memories table aliased as m)
+   */
+  private buildFilters(params: SearchParams): { sql: string; params: any[] } {
+    let sql = '';
+    const queryParams: any[] = [];
+
     // Add expiration filter
     if (!params.include_expired) {
-      query += ' AND (m.expires_at IS NULL OR m.expires_at > ?)';
-      queryParams.push(now);
+      sql += ' AND (m.expires_at IS NULL OR m.expires_at > ?)';
+      queryParams.push(Date.now());
+    }
+
+    // Add creation window filter
+    if (params.created_after !== undefined) {
+      sql += ' AND m.created_at >= ?';
+      queryParams.push(params.created_after);
+    }
+    if (params.created_before !== undefined) {
+      sql += ' AND m.created_at < ?';
+      queryParams.push(params.created_before);
     }
 
     // Add tag filter
     if (params.tags && params.tags.length > 0) {
-      query += ' AND EXISTS (SELECT 1 FROM json_each(m.tags) WHERE value IN (' +
+      sql += ' AND EXISTS (SELECT 1 FROM json_each(m.tags) WHERE value IN (' +
         params.tags.map(() => '?').join(',') + '))';
       queryParams.push(...params.tags);
     }
 
+    // Add package scope filter; untagged memories apply to the whole repository
+    if (params.package) {
+      sql += ` AND (
+        NOT EXISTS (SELECT 1 FROM json_each(m.tags) WHERE value LIKE ?)
+        OR EXISTS (SELECT 1 FROM json_each(m.tags) WHERE value = ?)
+      )`;
+      queryParams.push(`${PACKAGE_TAG_PREFIX}%`, `${PACKAGE_TAG_PREFIX}${params.package}`);
+    }
+
+    // Add branch filter
+    if (params.branch) {
+      sql += ' AND m.branch = ?';
+      queryParams.push(params.branch);
+    }
+
     // Add path matching filter
     if (params.require_path_match) {
       // Filter by paths that exist relative to current working directory
       const cwd = process.cwd();
 
       // Use EXISTS to check if any path in the JSON array exists relative to cwd
-      query += ` AND EXISTS (
+      sql += ` AND EXISTS (
         SELECT 1 FROM json_each(m.paths) as path_item
         WHERE
           -- Check if it's an absolute path under cwd
@@ -431,23 +931,218 @@ export class MemoryDatabase {
       queryParams.push(cwd + '/');
     }
 
-    query += ' ORDER BY fts_score DESC, m.importance DESC, m.created_at DESC LIMIT ?';
-    queryParams.push(k);
+    return { sql, params: queryParams };
+  }
 
-    const stmt = this.db.prepare(query);
-    const results = stmt.all(...queryParams) as any[];
+  /**
+   * Fuse keyword hits with embedding similarity. BM25 is normalised against the
+   * best keyword hit so both signals sit on a 0..1 scale before weighting.
+   */
+  private hybridRank(
+    params: SearchParams,
+    lexical: SearchResult[],
+    options: { semanticOnly?: boolean; semanticQuery?: string } = {}
+  ): {
+    results: SearchResult[];
+    semantic: { enabled: boolean; embedder?: string; semantic_only_hits: number };
+  } {
+    const k = params.k || 10;
+    const useSemantic = params.semantic !== false && this.embedder !== null;
+    const semanticParams = options.semanticQuery !== undefined ? { ...params, q: options.semanticQuery } : params;
+    const similarities = useSemantic ? this.semanticSimilarities(semanticParams) : new Map<string, {
+      memory: Memory;
+      similarity: number;
+    }>();
+
+    const maxBm25 = Math.max(0, ...lexical.map(r => r.score));
+    const lexicalWeight = useSemantic ? HYBRID_LEXICAL_WEIGHT : 1.0;
+    const merged = new Map<string, SearchResult>();
+
+    for (const result of lexical) {
+      const bm25 = maxBm25 > 0 ? result.score / maxBm25 : 1.0;
+      const similarity = Math.max(0, similarities.get(result.memory.id)?.similarity ?? 0);
+      const breakdown: Record<string, number> = { keyword: lexicalWeight * bm25 };
+      if (useSemantic) breakdown.semantic = HYBRID_SEMANTIC_WEIGHT * similarity;
+      merged.set(result.memory.id, {
+        ...result,
+        score: breakdown.keyword + (breakdown.semantic ?? 0),
+        bm25,
+        similarity: useSemantic ? similarity : undefined,
+        score_breakdown: breakdown
+      });
+    }
 
-    return results.map(row => ({
-      memory: this.rowToMemory(row),
-      score: -row.fts_score, // BM25 returns negative scores
-      snippet: row.snippet
-    }));
+    let semanticOnly = 0;
+    for (const [id, { memory, similarity }] of similarities) {
+      if (options.semanticOnly === false) break;
+      if (merged.has(id) || similarity < MIN_SEMANTIC_SIMILARITY) continue;
+      merged.set(id, {
+        memory,
+        score: HYBRID_SEMANTIC_WEIGHT * similarity,
+        snippet: memory.text.substring(0, 100) + (memory.text.length > 100 ? '...' : ''),
+        bm25: 0,
+        similarity,
+        score_breakdown: { keyword: 0, semantic: HYBRID_SEMANTIC_WEIGHT * similarity }
+      });
+      semanticOnly++;
+    }
+
+    const ranked = this.applyBranchBoost(this.applyUsageSignals(Array.from(merged.values())), params.boost_branch)
+      .sort((a, b) => b.score - a.score);
+
+    return {
+      results: this.annotateWithLinks(ranked.slice(0, k * 2)).slice(0, k),
+      semantic: {
+        enabled: useSemantic,
+        embedder: this.embedder?.id,
+        semantic_only_hits: semanticOnly
+      }
+    };
+  }
+
+  private applyUsageSignals(results: SearchResult[]): SearchResult[] {
+    const usage = this.getUsage(results.map(r => r.memory.id));
+
+    for (const result of results) {
+      const memoryUsage = usage.get(result.memory.id);
+      if (!memoryUsage) continue;
+
+      const signals = usageSignals(memoryUsage);
+      const breakdown = { ...result.score_breakdown };
+      if (signals.usage > 0) breakdown.usage = SEARCH_USAGE_WEIGHT * signals.usage;
+      if (signals.feedback !== 0) breakdown.feedback = SEARCH_FEEDBACK_WEIGHT * signals.feedback;
+
+      result.usage = memoryUsage;
+      result.score += (breakdown.usage ?? 0) + (breakdown.feedback ?? 0);
+      result.score_breakdown = breakdown;
+    }
+
+    return results;
+  }
+
+  private applyBranchBoost(results: SearchResult[], branch?: string): SearchResult[] {
+    if (!branch) return results;
+
+    for (const result of results) {
+      if (result.memory.branch !== branch) continue;
+      result.score += SEARCH_BRANCH_WEIGHT;
+      result.score_breakdown = { ...result.score_breakdown, branch: SEARCH_BRANCH_WEIGHT };
+    }
+
+    return results;
+  }
+
+  /**
+   * Cosine similarity between the query and every memory that passes the filters
+   */
+  private semanticSimilarities(params: SearchParams): Map<string, { memory: Memory; similarity: number }> {
+    const similarities = new Map<string, { memory: Memory; similarity: number }>();
+    if (!this.embedder) return similarities;
+
+    // Strip FTS operators so they do not become features
+    const queryText = params.q.replace(/\b(OR|AND|NOT|NEAR)\b/g, ' ').replace(/[*"]/g, ' ');
+    if (!queryText.trim()) return similarities;
+
+    try {
+      this.ensureEmbeddings();
+      const queryVector = this.embedder.embed(queryText);
+
+      const filters = this.buildFilters(params);
+      const rows = this.db.prepare(`
+        SELECT m.*, e.vector
+        FROM memories m
+        JOIN memory_embeddings e ON e.memory_id = m.id
+        WHERE m.project_id = ? AND e.embedder = ?
+        ${filters.sql}
+      `).all(this.projectId, this.embedder.id, ...filters.params) as any[];
+
+      for (const row of rows) {
+        similarities.set(row.id, {
+          memory: this.rowToMemory(row),
+          similarity: cosineSimilarity(queryVector, bufferToVector(row.vector))
+        });
+      }
+    } catch (error) {
+      logger.warn('Semantic search failed, using keyword ranking only:', error);
+    }
+
+    return similarities;
+  }
+
+  /**
+   * Embed any memory that has no vector for the current embedder yet
+   * (new databases, legacy rows, or after switching embedders)
+   */
+  private ensureEmbeddings() {
+    if (!this.embedder) return;
+
+    const missing = this.db.prepare(`
+      SELECT m.* FROM memories m
+      LEFT JOIN memory_embeddings e ON e.memory_id = m.id AND e.embedder = ?
+      WHERE m.project_id = ? AND e.memory_id IS NULL
+    `).all(this.embedder.id, this.projectId) as any[];
+
+    if (missing.length === 0) return;
+
+    this.db.transaction(() => {
+      for (const row of missing) {
+        this.indexEmbedding(this.rowToMemory(row));
+      }
+    })();
+    logger.info(`Embedded ${missing.length} memories with ${this.embedder.id}`);
+  }
+
+  private indexEmbedding(memory: Memory) {
+    if (!this.embedder) return;
+
+    try {
+      const vector = this.embedder.embed(
+        `${memory.summary}\n${memory.tags.join(' ')}\n${memory.text.substring(0, EMBEDDING_TEXT_LIMIT)}`
+      );
+      this.db.prepare(`
+        INSERT OR REPLACE INTO memory_embeddings (memory_id, embedder, dimensions, vector, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(memory.id, this.embedder.id, vector.length, vectorToBuffer(vector), Date.now());
+    } catch (error) {
+      // Never let the optional index block a save
+      logger.warn(`Failed to embed memory ${memory.id}:`, error);
+    }
+  }
+
+  /**
+   * Attach linked neighbours to search results and push superseded memories
+   * down so the replacement is seen first.
+   */
+  private annotateWithLinks(results: SearchResult[]): SearchResult[] {
+    if (results.length === 0) return results;
+
+    for (const result of results) {
+      const links = this.getNeighbours(result.memory.id);
+      if (links.length === 0) continue;
+
+      result.links = links;
+
+      const supersededBy = links
+        .filter(l => l.type === 'supersedes' && l.direction === 'in')
+        .map(l => l.id);
+
+      if (supersededBy.length > 0) {
+        result.superseded_by = supersededBy;
+        const penalty = result.score * (1 - SUPERSEDED_PENALTY);
+        result.score -= penalty;
+        result.score_breakdown = { ...result.score_breakdown, superseded: -penalty };
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score);
   }
 
   getRecent(params: {
     k?: number;
     path_prefix?: string;
     include_expired?: boolean;
+    created_after?: number;
+    created_before?: number;
   }): Memory[] {
     const k = params.k || 10;
     const now = Date.now();
@@ -463,6 +1158,16 @@ export class MemoryDatabase {
       queryParams.push(now);
     }
 
+    if (params.created_after !== undefined) {
+      query += ' AND created_at >= ?';
+      queryParams.push(params.created_after);
+    }
+
+    if (params.created_before !== undefined) {
+      query += ' AND created_at < ?';
+      queryParams.push(params.created_before);
+    }
+
     if (params.path_prefix) {
       query += ` AND EXISTS (
         SELECT 1 FROM json_each(paths) 
@@ -573,8 +1278,38 @@ export class MemoryDatabase {
     }
   }
 
-  private update(id: string, params: Partial<Memory>): { id: string } {
-    const now = Date.now();
+  /**
+   * Patch a memory in place. Only the fields present in `params` are changed;
+   * passing `ttl: null` clears the expiry.
+   *
+   * When `expected_updated_at` is given the write only happens if the row
+   * still carries that timestamp, so two agents editing the same memory
+   * cannot silently overwrite each other.
+   */
+  update(id: string, params: MemoryPatch, options: {
+    expected_updated_at?: number;
+  } = {}): MemoryUpdateResult {
+    const current = this.get(id);
+
+    if (!current) {
+      return {
+        ok: false,
+        reason: 'not_found',
+        message: `Memory ${id} not found in project ${this.projectId}`
+      };
+    }
+
+    if (options.expected_updated_at !== undefined && current.updated_at !== options.expected_updated_at) {
+      return {
+        ok: false,
+        reason: 'conflict',
+        message: `Memory ${id} was modified at ${current.updated_at}, expected ${options.expected_updated_at}`,
+        current
+      };
+    }
+
+    // Keep updated_at strictly increasing so it can act as a version stamp
+    const now = Math.max(Date.now(), current.updated_at + 1);
     const updates: string[] = ['updated_at = ?'];
     const values: any[] = [now];
 
@@ -598,17 +1333,631 @@ export class MemoryDatabase {
       updates.push('importance = ?');
       values.push(params.importance);
     }
+    if (params.ttl !== undefined) {
+      updates.push('ttl = ?', 'expires_at = ?');
+      values.push(params.ttl, params.ttl ? now + (params.ttl * 1000) : null);
+    }
+    if (params.branch !== undefined) {
+      updates.push('branch = ?');
+      values.push(params.branch);
+    }
+    if (params.commit_sha !== undefined) {
+      updates.push('commit_sha = ?');
+      values.push(params.commit_sha);
+    }
+    if (params.summary !== undefined || params.paths !== undefined) {
+      // Memories saved without dedupe keep no hash
+      updates.push('dedupe_hash = CASE WHEN dedupe_hash IS NULL THEN NULL ELSE ? END');
+      values.push(this.computeDedupeHash(
+        params.summary ?? current.summary,
+        [...(params.paths ?? current.paths)]
+      ));
+    }
 
-    values.push(id, this.projectId);
+    values.push(id, this.projectId, current.updated_at);
 
+    // Compare-and-swap on updated_at guards against a write landing between get() and here
     const stmt = this.db.prepare(`
-      UPDATE memories 
+      UPDATE memories
       SET ${updates.join(', ')}
-      WHERE id = ? AND project_id = ?
+      WHERE id = ? AND project_id = ? AND updated_at = ?
     `);
-    
-    stmt.run(...values);
-    return { id };
+
+    // Snapshot the outgoing version and apply the patch atomically
+    const applied = this.db.transaction(() => {
+      const result = stmt.run(...values);
+      if (result.changes > 0) {
+        this.snapshotRevision(current, now);
+      }
+      return result.changes > 0;
+    })();
+
+    if (!applied) {
+      const latest = this.get(id);
+      return {
+        ok: false,
+        reason: latest ? 'conflict' : 'not_found',
+        message: latest
+          ? `Memory ${id} was modified concurrently at ${latest.updated_at}`
+          : `Memory ${id} not found in project ${this.projectId}`,
+        current: latest || undefined
+      };
+    }
+
+    const memory = this.get(id)!;
+    this.indexEmbedding(memory);
+
+    logger.info(`Memory updated: ${id}`);
+    return { ok: true, memory };
+  }
+
+  /**
+   * List every version of a memory, oldest first, with a text diff from the
+   * previous version. The last entry is the current row.
+   */
+  getHistory(id: string): MemoryRevision[] | null {
+    const current = this.get(id);
+    if (!current) {
+      return null;
+    }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM memory_revisions
+      WHERE memory_id = ?
+      ORDER BY revision ASC
+    `).all(id) as any[];
+
+    const versions = [
+      ...rows.map(row => ({
+        revision: row.revision as number,
+        memory: this.rowToMemory({
+          ...row,
+          id,
+          project_id: this.projectId,
+          created_at: current.created_at,
+          updated_at: row.valid_from
+        }),
+        replaced_at: row.replaced_at as number | undefined
+      })),
+      { revision: rows.length + 1, memory: current, replaced_at: undefined }
+    ];
+
+    return versions.map((version, i) => {
+      const previous = versions[i - 1]?.memory;
+      const changed: string[] = [];
+
+      if (previous) {
+        if (previous.summary !== version.memory.summary) changed.push('summary');
+        if (previous.text !== version.memory.text) changed.push('text');
+        if (JSON.stringify(previous.tags) !== JSON.stringify(version.memory.tags)) changed.push('tags');
+        if (JSON.stringify(previous.paths) !== JSON.stringify(version.memory.paths)) changed.push('paths');
+        if (previous.importance !== version.memory.importance) changed.push('importance');
+        if ((previous.ttl ?? null) !== (version.memory.ttl ?? null)) changed.push('ttl');
+      }
+
+      return {
+        revision: version.revision,
+        current: i === versions.length - 1,
+        summary: version.memory.summary,
+        text: version.memory.text,
+        tags: version.memory.tags,
+        paths: version.memory.paths,
+        importance: version.memory.importance,
+        valid_from: version.memory.updated_at,
+        replaced_at: version.replaced_at,
+        changed_fields: changed,
+        diff: previous ? diffLines(previous.text, version.memory.text) : undefined,
+        summary_diff: previous && previous.summary !== version.memory.summary
+          ? { from: previous.summary, to: version.memory.summary }
+          : undefined
+      };
+    });
+  }
+
+  /**
+   * Restore the content of an earlier revision, including its TTL (counted
+   * from now). The version being replaced is itself snapshotted, so a revert
+   * can always be undone.
+   */
+  revert(id: string, revision: number, options: {
+    expected_updated_at?: number;
+  } = {}): MemoryUpdateResult {
+    const row = this.db.prepare(`
+      SELECT * FROM memory_revisions
+      WHERE memory_id = ? AND revision = ?
+    `).get(id, revision) as any;
+
+    if (!row) {
+      const exists = this.get(id);
+      return {
+        ok: false,
+        reason: 'not_found',
+        message: exists
+          ? `Revision ${revision} not found for memory ${id}`
+          : `Memory ${id} not found in project ${this.projectId}`
+      };
+    }
+
+    logger.info(`Reverting memory ${id} to revision ${revision}`);
+    return this.update(id, {
+      summary: row.summary,
+      text: row.text,
+      tags: JSON.parse(row.tags),
+      paths: JSON.parse(row.paths),
+      importance: row.importance,
+      ttl: row.ttl ?? null
+    }, options);
+  }
+
+  private snapshotRevision(memory: Memory, replacedAt: number) {
+    const next = this.db.prepare(
+      'SELECT COALESCE(MAX(revision), 0) + 1 as revision FROM memory_revisions WHERE memory_id = ?'
+    ).get(memory.id) as any;
+
+    this.db.prepare(`
+      INSERT INTO memory_revisions (
+        memory_id, revision, summary, text, tags, paths,
+        importance, ttl, expires_at, valid_from, replaced_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      memory.id,
+      next.revision,
+      memory.summary,
+      memory.text,
+      JSON.stringify(memory.tags),
+      JSON.stringify(memory.paths),
+      memory.importance,
+      memory.ttl ?? null,
+      memory.expires_at ?? null,
+      memory.updated_at,
+      replacedAt
+    );
+  }
+
+  link(sourceId: string, targetId: string, type: MemoryLinkType = 'relates_to', note?: string): {
+    ok: boolean;
+    link?: MemoryLink;
+    message?: string;
+  } {
+    if (!MEMORY_LINK_TYPES.includes(type)) {
+      return { ok: false, message: `Unknown link type: ${type}. Use one of: ${MEMORY_LINK_TYPES.join(', ')}` };
+    }
+    if (sourceId === targetId) {
+      return { ok: false, message: 'A memory cannot be linked to itself' };
+    }
+
+    for (const id of [sourceId, targetId]) {
+      if (!this.get(id)) {
+        return { ok: false, message: `Memory ${id} not found in project ${this.projectId}` };
+      }
+    }
+
+    const link: MemoryLink = {
+      source_id: sourceId,
+      target_id: targetId,
+      type,
+      note,
+      created_at: Date.now()
+    };
+
+    this.db.prepare(`
+      INSERT OR REPLACE INTO memory_links (source_id, target_id, link_type, note, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(sourceId, targetId, type, note ?? null, link.created_at);
+
+    logger.info(`Linked ${sourceId} -[${type}]-> ${targetId}`);
+    return { ok: true, link };
+  }
+
+  unlink(sourceId: string, targetId: string, type?: MemoryLinkType): { ok: boolean; removed: number } {
+    let query = 'DELETE FROM memory_links WHERE source_id = ? AND target_id = ?';
+    const queryParams: any[] = [sourceId, targetId];
+
+    if (type) {
+      query += ' AND link_type = ?';
+      queryParams.push(type);
+    }
+
+    const result = this.db.prepare(query).run(...queryParams);
+    return { ok: result.changes > 0, removed: result.changes };
+  }
+
+  /**
+   * Fold another project's memories into this one. Memories this project
+   * already has are skipped, and links to them are redirected to the existing
+   * copy; revisions and usage come along with the memories that are copied.
+   * Embeddings are rebuilt on the next search.
+   */
+  mergeFrom(sourceDbPath: string): MergeReport {
+    const report: MergeReport = { merged: 0, duplicates: 0, links: 0, revisions: 0 };
+    if (!fs.existsSync(sourceDbPath)) return report;
+
+    this.db.prepare('ATTACH DATABASE ? AS source').run(sourceDbPath);
+    try {
+      const sourceHas = (table: string) => !!this.db.prepare(
+        "SELECT 1 FROM source.sqlite_master WHERE type = 'table' AND name = ?"
+      ).get(table);
+
+      this.db.transaction(() => {
+        // Source ID -> the memory this project already has for it (NULL: copy it)
+        this.db.exec(`
+          CREATE TEMP TABLE merge_map AS
+          SELECT s.id AS source_id, (
+            SELECT m.id FROM main.memories m
+            WHERE m.id = s.id OR (s.dedupe_hash IS NOT NULL AND m.dedupe_hash = s.dedupe_hash)
+            LIMIT 1
+          ) AS existing_id
+          FROM source.memories s;
+
+          CREATE TEMP TABLE merge_ids AS
+          SELECT source_id AS id FROM temp.merge_map WHERE existing_id IS NULL;
+        `);
+
+        // Stores written by older versions lack the newer columns
+        const sourceColumns = new Set((this.db.prepare('PRAGMA source.table_info(memories)').all() as any[])
+          .map(c => c.name));
+        const columns = (this.db.prepare('PRAGMA main.table_info(memories)').all() as any[])
+          .map(c => c.name as string)
+          .filter(name => name !== 'project_id' && sourceColumns.has(name));
+
+        const total = (this.db.prepare('SELECT COUNT(*) AS count FROM source.memories').get() as any).count;
+        report.merged = this.db.prepare(`
+          INSERT INTO main.memories (project_id, ${columns.join(', ')})
+          SELECT ?, ${columns.join(', ')}
+          FROM source.memories WHERE id IN (SELECT id FROM temp.merge_ids)
+        `).run(this.projectId).changes;
+        report.duplicates = total - report.merged;
+
+        if (sourceHas('memory_revisions')) {
+          report.revisions = this.db.prepare(`
+            INSERT OR IGNORE INTO main.memory_revisions (
+              memory_id, revision, summary, text, tags, paths,
+              importance, ttl, expires_at, valid_from, replaced_at
+            )
+            SELECT memory_id, revision, summary, text, tags, paths,
+                   importance, ttl, expires_at, valid_from, replaced_at
+            FROM source.memory_revisions WHERE memory_id IN (SELECT id FROM temp.merge_ids)
+          `).run().changes;
+        }
+
+        if (sourceHas('memory_links')) {
+          // Edges touching at least one copied memory; duplicates resolve to the existing copy
+          report.links = this.db.prepare(`
+            INSERT OR IGNORE INTO main.memory_links (source_id, target_id, link_type, note, created_at)
+            SELECT COALESCE(a.existing_id, a.source_id), COALESCE(b.existing_id, b.source_id),
+                   l.link_type, l.note, l.created_at
+            FROM source.memory_links l
+            JOIN temp.merge_map a ON a.source_id = l.source_id
+            JOIN temp.merge_map b ON b.source_id = l.target_id
+            WHERE (a.existing_id IS NULL OR b.existing_id IS NULL)
+              AND COALESCE(a.existing_id, a.source_id) != COALESCE(b.existing_id, b.source_id)
+          `).run().changes;
+        }
+
+        if (sourceHas('memory_path_snapshots')) {
+          this.db.prepare(`
+            INSERT OR IGNORE INTO main.memory_path_snapshots (
+              memory_id, path, blob_hash, mtime, size, signature, recorded_at
+            )
+            SELECT memory_id, path, blob_hash, mtime, size, signature, recorded_at
+            FROM source.memory_path_snapshots WHERE memory_id IN (SELECT id FROM temp.merge_ids)
+          `).run();
+        }
+
+        if (sourceHas('memory_usage')) {
+          this.db.prepare(`
+            INSERT OR IGNORE INTO main.memory_usage (
+              memory_id, retrieved_count, injected_count, helpful_count, unhelpful_count, last_used_at
+            )
+            SELECT memory_id, retrieved_count, injected_count, helpful_count, unhelpful_count, last_used_at
+            FROM source.memory_usage WHERE memory_id IN (SELECT id FROM temp.merge_ids)
+          `).run();
+        }
+
+        this.db.exec('DROP TABLE temp.merge_ids; DROP TABLE temp.merge_map;');
+      })();
+    } finally {
+      this.db.exec('DETACH DATABASE source');
+    }
+
+    logger.info(`Merged ${report.merged} memories from ${sourceDbPath} (${report.duplicates} duplicates skipped)`);
+    return report;
+  }
+
+  /**
+   * Replace the file snapshots of a memory
+   */
+  setPathSnapshots(memoryId: string, snapshots: PathSnapshot[]) {
+    const insert = this.db.prepare(`
+      INSERT INTO memory_path_snapshots (memory_id, path, blob_hash, mtime, size, signature, recorded_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM memory_path_snapshots WHERE memory_id = ?').run(memoryId);
+      for (const snapshot of snapshots) {
+        insert.run(
+          memoryId,
+          snapshot.path,
+          snapshot.blob_hash,
+          snapshot.mtime,
+          snapshot.size,
+          Buffer.from(snapshot.signature.buffer, snapshot.signature.byteOffset, snapshot.signature.byteLength),
+          snapshot.recorded_at
+        );
+      }
+    })();
+  }
+
+  /**
+   * File snapshots by memory ID: for the given memories, or every unexpired one
+   */
+  getPathSnapshots(ids?: string[]): Map<string, PathSnapshot[]> {
+    const rows = ids
+      ? (ids.length === 0 ? [] : this.db.prepare(`
+          SELECT * FROM memory_path_snapshots WHERE memory_id IN (${ids.map(() => '?').join(',')})
+        `).all(...ids) as any[])
+      : this.db.prepare(`
+          SELECT s.* FROM memory_path_snapshots s
+          JOIN memories m ON m.id = s.memory_id
+          WHERE m.project_id = ? AND (m.expires_at IS NULL OR m.expires_at > ?)
+        `).all(this.projectId, Date.now()) as any[];
+
+    const snapshots = new Map<string, PathSnapshot[]>();
+    for (const row of rows) {
+      const copy = new Uint8Array(row.signature ?? []);
+      const list = snapshots.get(row.memory_id) || [];
+      list.push({
+        path: row.path,
+        blob_hash: row.blob_hash,
+        mtime: row.mtime,
+        size: row.size,
+        signature: new Uint32Array(copy.buffer, 0, copy.byteLength / Uint32Array.BYTES_PER_ELEMENT),
+        recorded_at: row.recorded_at
+      });
+      snapshots.set(row.memory_id, list);
+    }
+    return snapshots;
+  }
+
+  /**
+   * Unexpired memories with paths but no file snapshots: saved before
+   * snapshots were taken, or referring only to directories and globs
+   */
+  countUntrackedPaths(): number {
+    return (this.db.prepare(`
+      SELECT COUNT(*) AS count FROM memories m
+      WHERE m.project_id = ? AND json_array_length(m.paths) > 0
+        AND (m.expires_at IS NULL OR m.expires_at > ?)
+        AND NOT EXISTS (SELECT 1 FROM memory_path_snapshots s WHERE s.memory_id = m.id)
+    `).get(this.projectId, Date.now()) as any).count;
+  }
+
+  /**
+   * Expire memories now: they drop out of search and are removed by the next cleanup
+   */
+  expire(ids: string[]): { expired: string[] } {
+    if (ids.length === 0) return { expired: [] };
+
+    const placeholders = ids.map(() => '?').join(',');
+    const existing = this.db.prepare(
+      `SELECT id FROM memories WHERE project_id = ? AND id IN (${placeholders})`
+    ).all(this.projectId, ...ids) as any[];
+    this.db.prepare(
+      `UPDATE memories SET expires_at = ? WHERE project_id = ? AND id IN (${placeholders})`
+    ).run(Date.now(), this.projectId, ...ids);
+
+    return { expired: existing.map(row => row.id) };
+  }
+
+  /**
+   * Memories saved on each branch other than the given trunk, most recent first
+   */
+  getBranches(options: { exclude?: string } = {}): BranchSummary[] {
+    const rows = this.db.prepare(`
+      SELECT branch, COUNT(*) AS count, MAX(created_at) AS last_saved_at,
+             (SELECT l.commit_sha FROM memories l
+              WHERE l.branch = m.branch AND l.commit_sha IS NOT NULL
+              ORDER BY l.created_at DESC LIMIT 1) AS last_commit
+      FROM memories m
+      WHERE project_id = ? AND branch IS NOT NULL AND branch != ?
+      GROUP BY branch
+      ORDER BY last_saved_at DESC
+    `).all(this.projectId, options.exclude ?? '') as any[];
+
+    return rows.map(row => ({
+      branch: row.branch,
+      count: row.count,
+      last_commit: row.last_commit ?? undefined,
+      last_saved_at: row.last_saved_at
+    }));
+  }
+
+  /**
+   * Move every memory saved on a branch to another (the trunk, once the
+   * branch is merged). Commits are kept as a record of where they came from.
+   */
+  promoteBranch(branch: string, target: string): { promoted: string[] } {
+    const rows = this.db.prepare(
+      'SELECT id FROM memories WHERE project_id = ? AND branch = ?'
+    ).all(this.projectId, branch) as any[];
+
+    this.db.prepare(
+      'UPDATE memories SET branch = ? WHERE project_id = ? AND branch = ?'
+    ).run(target, this.projectId, branch);
+
+    logger.info(`Promoted ${rows.length} memories from ${branch} to ${target}`);
+    return { promoted: rows.map(row => row.id) };
+  }
+
+  /**
+   * Count a retrieval or context injection for each memory
+   */
+  recordUsage(ids: string[], kind: MemoryUsageKind) {
+    if (ids.length === 0) return;
+
+    const column = kind === 'injected' ? 'injected_count' : 'retrieved_count';
+    const stmt = this.db.prepare(`
+      INSERT INTO memory_usage (memory_id, ${column}, last_used_at)
+      SELECT id, 1, ? FROM memories WHERE id = ?
+      ON CONFLICT(memory_id) DO UPDATE SET
+        ${column} = ${column} + 1,
+        last_used_at = excluded.last_used_at
+    `);
+    const now = Date.now();
+    this.db.transaction(() => {
+      for (const id of ids) stmt.run(now, id);
+    })();
+  }
+
+  recordFeedback(id: string, helpful: boolean): { ok: boolean; usage?: MemoryUsage; message?: string } {
+    if (!this.get(id)) {
+      return { ok: false, message: `Memory ${id} not found in project ${this.projectId}` };
+    }
+
+    const column = helpful ? 'helpful_count' : 'unhelpful_count';
+    this.db.prepare(`
+      INSERT INTO memory_usage (memory_id, ${column}) VALUES (?, 1)
+      ON CONFLICT(memory_id) DO UPDATE SET ${column} = ${column} + 1
+    `).run(id);
+
+    logger.info(`Recorded ${helpful ? 'helpful' : 'unhelpful'} feedback for ${id}`);
+    return { ok: true, usage: this.getUsage([id]).get(id) };
+  }
+
+  getUsage(ids: string[]): Map<string, MemoryUsage> {
+    const usage = new Map<string, MemoryUsage>();
+    if (ids.length === 0) return usage;
+
+    const rows = this.db.prepare(`
+      SELECT * FROM memory_usage WHERE memory_id IN (${ids.map(() => '?').join(',')})
+    `).all(...ids) as any[];
+
+    for (const row of rows) {
+      usage.set(row.memory_id, {
+        retrieved_count: row.retrieved_count,
+        injected_count: row.injected_count,
+        helpful_count: row.helpful_count,
+        unhelpful_count: row.unhelpful_count,
+        last_used_at: row.last_used_at ?? undefined
+      });
+    }
+    return usage;
+  }
+
+  getUsageStats(limit: number = 5): UsageStats {
+    const totals = this.db.prepare(`
+      SELECT COUNT(*) AS tracked,
+             COALESCE(SUM(retrieved_count), 0) AS retrievals,
+             COALESCE(SUM(injected_count), 0) AS injections,
+             COALESCE(SUM(helpful_count), 0) AS helpful,
+             COALESCE(SUM(unhelpful_count), 0) AS unhelpful
+      FROM memory_usage u JOIN memories m ON m.id = u.memory_id
+      WHERE m.project_id = ?
+    `).get(this.projectId) as any;
+
+    const mostUsed = this.db.prepare(`
+      SELECT m.id, m.summary, u.retrieved_count + u.injected_count AS uses
+      FROM memory_usage u JOIN memories m ON m.id = u.memory_id
+      WHERE m.project_id = ? AND u.retrieved_count + u.injected_count > 0
+      ORDER BY uses DESC, u.last_used_at DESC
+      LIMIT ?
+    `).all(this.projectId, limit) as any[];
+
+    return {
+      tracked_memories: totals.tracked,
+      retrievals: totals.retrievals,
+      injections: totals.injections,
+      helpful: totals.helpful,
+      unhelpful: totals.unhelpful,
+      most_used: mostUsed.map(row => ({ id: row.id, summary: row.summary, uses: row.uses }))
+    };
+  }
+
+  /**
+   * Direct neighbours of a memory in both directions
+   */
+  getNeighbours(id: string, types?: MemoryLinkType[]): LinkedNeighbour[] {
+    const rows = this.db.prepare(`
+      SELECT l.target_id as id, l.link_type, 'out' as direction, m.summary
+      FROM memory_links l JOIN memories m ON m.id = l.target_id
+      WHERE l.source_id = ?
+      UNION ALL
+      SELECT l.source_id as id, l.link_type, 'in' as direction, m.summary
+      FROM memory_links l JOIN memories m ON m.id = l.source_id
+      WHERE l.target_id = ?
+    `).all(id, id) as any[];
+
+    return rows
+      .filter(row => !types || types.includes(row.link_type))
+      .map(row => ({
+        id: row.id,
+        type: row.link_type,
+        direction: row.direction,
+        summary: row.summary
+      }));
+  }
+
+  /**
+   * Breadth-first walk over typed links starting at `id`
+   */
+  traverse(id: string, options: {
+    depth?: number;
+    types?: MemoryLinkType[];
+    direction?: 'out' | 'in' | 'both';
+  } = {}): {
+    root: string;
+    nodes: Array<{ id: string; summary: string; depth: number }>;
+    edges: MemoryLink[];
+  } | null {
+    const root = this.get(id);
+    if (!root) return null;
+
+    const maxDepth = Math.max(1, Math.min(options.depth || 2, 5));
+    const direction = options.direction || 'both';
+
+    const nodes = new Map<string, { id: string; summary: string; depth: number }>();
+    const edges = new Map<string, MemoryLink>();
+    nodes.set(root.id, { id: root.id, summary: root.summary, depth: 0 });
+
+    let frontier = [root.id];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const current of frontier) {
+        for (const neighbour of this.getNeighbours(current, options.types)) {
+          if (direction !== 'both' && neighbour.direction !== direction) continue;
+
+          const edge: MemoryLink = neighbour.direction === 'out'
+            ? { source_id: current, target_id: neighbour.id, type: neighbour.type, created_at: 0 }
+            : { source_id: neighbour.id, target_id: current, type: neighbour.type, created_at: 0 };
+          edges.set(`${edge.source_id}|${edge.target_id}|${edge.type}`, edge);
+
+          if (!nodes.has(neighbour.id)) {
+            nodes.set(neighbour.id, { id: neighbour.id, summary: neighbour.summary, depth });
+            next.push(neighbour.id);
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    // Fill in stored metadata for the collected edges
+    const edgeStmt = this.db.prepare(`
+      SELECT note, created_at FROM memory_links
+      WHERE source_id = ? AND target_id = ? AND link_type = ?
+    `);
+    for (const edge of edges.values()) {
+      const row = edgeStmt.get(edge.source_id, edge.target_id, edge.type) as any;
+      edge.note = row?.note ?? undefined;
+      edge.created_at = row?.created_at ?? 0;
+    }
+
+    return {
+      root: root.id,
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values())
+    };
   }
 
   private cleanupExpired() {
@@ -868,7 +2217,9 @@ export class MemoryDatabase {
       created_at: row.created_at,
       updated_at: row.updated_at,
       ttl: row.ttl,
-      expires_at: row.expires_at
+      expires_at: row.expires_at,
+      branch: row.branch ?? undefined,
+      commit_sha: row.commit_sha ?? undefined
     };
   }
 
@@ -879,6 +2230,7 @@ export class MemoryDatabase {
   }
 
   close() {
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
     this.db.close();
   }
 }
\ No newline at end of file
@@ -0,0 +1,152 @@
+/**
+ * Local embedding support for semantic memory search.
+ *
+ * Everything here runs offline and in-process. The default embedder hashes
+ * word and character n-gram features into a fixed-size vector, plus a small
+ * table of developer vocabulary so that e.g. "login" and "authentication"
+ * land near each other even though they share no characters.
+ */
+
+export interface Embedder {
+  /** Stable identifier stored with each vector; changing it triggers re-indexing */
+  readonly id: string;
+  readonly dimensions: number;
+  embed(text: string): Float32Array;
+}
+
+// Words that mean the same thing in a codebase. Each group adds a shared feature.
+const TERM_GROUPS: Record<string, string[]> = {
+  auth: ['auth', 'authentication', 'authenticate', 'authorization', 'authorize', 'login', 'logon',
+    'signin', 'signon', 'sso', 'oauth', 'jwt', 'session', 'sessions', 'credential', 'credentials',
+    'password', 'passwords', 'token', 'tokens', 'logout', 'signout'],
+  database: ['database', 'databases', 'db', 'sql', 'sqlite', 'postgres', 'postgresql', 'mysql',
+    'schema', 'migration', 'migrations', 'query', 'queries', 'table', 'tables', 'orm'],
+  error: ['error', 'errors', 'exception', 'exceptions', 'bug', 'bugs', 'crash', 'crashes',
+    'failure', 'failing', 'fails', 'broken', 'stacktrace', 'regression'],
+  performance: ['performance', 'perf', 'slow', 'latency', 'speed', 'optimize', 'optimization',
+    'cache', 'caching', 'throughput', 'bottleneck'],
+  testing: ['test', 'tests', 'testing', 'spec', 'specs', 'unit', 'e2e', 'jest', 'vitest', 'mocha',
+    'fixture', 'fixtures', 'mock', 'mocks'],
+  deploy: ['deploy', 'deployment', 'deploys', 'release', 'releases', 'ci', 'pipeline', 'build',
+    'docker', 'kubernetes', 'k8s', 'production', 'staging'],
+  frontend: ['ui', 'frontend', 'component', 'components', 'css', 'style', 'styles', 'layout',
+    'react', 'vue', 'svelte', 'view', 'views', 'page', 'pages'],
+  api: ['api', 'apis', 'endpoint', 'endpoints', 'route', 'routes', 'rest', 'graphql', 'request',
+    'requests', 'response', 'responses', 'http', 'webhook', 'webhooks'],
+  config: ['config', 'configuration', 'settings', 'env', 'environment', 'options', 'flags',
+    'feature-flag', 'dotenv'],
+  security: ['security', 'secure', 'secret', 'secrets', 'encryption', 'encrypt', 'xss', 'csrf',
+    'injection', 'vulnerability', 'cve', 'permission', 'permissions', 'rbac']
+};
+
+const TERM_TO_GROUP = new Map<string, string>();
+for (const [group, terms] of Object.entries(TERM_GROUPS)) {
+  for (const term of terms) {
+    TERM_TO_GROUP.set(term, group);
+  }
+}
+
+/**
+ * Feature-hashing embedder over word unigrams, word prefixes, character
+ * trigrams and vocabulary groups. Deterministic, dependency-free and fast
+ * enough to embed every memory on save.
+ */
+export class HashedNgramEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = 384) {
+    this.dimensions = dimensions;
+    this.id = `hashed-ngram-v1-${dimensions}`;
+  }
+
+  embed(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+
+    for (const word of tokenize(text)) {
+      this.add(vector, `w:${word}`, 1.0);
+
+      // Cheap stemming: "authenticate" and "authentication" share a prefix
+      if (word.length > 5) {
+        this.add(vector, `p:${word.substring(0, 5)}`, 0.5);
+      }
+
+      const padded = `<${word}>`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.add(vector, `c:${padded.substring(i, i + 3)}`, 0.25);
+      }
+
+      const group = TERM_TO_GROUP.get(word);
+      if (group) {
+        this.add(vector, `g:${group}`, 1.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private add(vector: Float32Array, feature: string, weight: number) {
+    const hash = fnv1a(feature);
+    const index = hash % this.dimensions;
+    // Use a separate bit for the sign so collisions tend to cancel out
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    vector[index] += sign * weight;
+  }
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1);
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export function vectorToBuffer(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function bufferToVector(buffer: Buffer): Float32Array {
+  // Copy into a fresh, aligned ArrayBuffer - Node may hand back pooled slices
+  const copy = new Uint8Array(buffer);
+  return new Float32Array(copy.buffer, 0, copy.byteLength / Float32Array.BYTES_PER_ELEMENT);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
\ No newline at end of file
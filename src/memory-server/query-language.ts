@@ -0,0 +1,400 @@
+/**
+ * Structured query language for memory_search.
+ *
+ * Examples:
+ *   tag:auth -tag:wip importance>=4
+ *   path:src/api/** ("rate limit" OR throttle)
+ *   created:>2026-01-01 (jwt OR session)
+ *   updated:<7d            (changed within the last 7 days)
+ *
+ * Queries are parsed into an AST and compiled to parameterised SQL; free-text
+ * terms become FTS5 MATCH sub-queries, so user input never reaches SQL directly.
+ */
+
+export type QueryField = 'tag' | 'path' | 'importance' | 'created' | 'updated';
+export type QueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; value: string; phrase: boolean; prefix: boolean; position: number }
+  | { type: 'field'; field: QueryField; op: QueryOperator; value: string; position: number };
+
+export interface CompiledQuery {
+  /** Boolean SQL expression over the memories table aliased as m */
+  where: string;
+  params: any[];
+  /** FTS5 expression OR-ing every positive term, used for bm25 ranking */
+  rankMatch?: string;
+}
+
+export class QueryParseError extends Error {
+  readonly position: number;
+  readonly query: string;
+
+  constructor(message: string, query: string, position: number) {
+    super(`${message} at position ${position}\n  ${query}\n  ${' '.repeat(position)}^`);
+    this.name = 'QueryParseError';
+    this.query = query;
+    this.position = position;
+  }
+}
+
+const FIELDS: QueryField[] = ['tag', 'path', 'importance', 'created', 'updated'];
+const FIELD_PATTERN = new RegExp(`^(${FIELDS.join('|')})(:(?:>=|<=|>|<|=)?|>=|<=|>|<|=)`, 'i');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not' | 'minus'; position: number; text: string }
+  | { kind: 'word' | 'phrase'; position: number; text: string; value: string }
+  | { kind: 'field'; position: number; text: string; field: QueryField; op: QueryOperator; value: string };
+
+/**
+ * Heuristic used to keep plain queries on the forgiving phrase-search path:
+ * only queries with a field filter or an uppercase AND/OR/NOT are parsed.
+ * Parentheses, quotes and dashes alone are common in plain text (useEffect()).
+ */
+export function isStructuredQuery(query: string): boolean {
+  return /(^|[\s(])-?(tag|path|importance|created|updated)(:|>=|<=|>|<|=)/i.test(query) ||
+    /(^|\s)(OR|AND|NOT)(\s|$)/.test(query);
+}
+
+export function parseQuery(query: string): QueryNode {
+  const tokens = tokenizeQuery(query);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string, position: number): never => {
+    throw new QueryParseError(message, query, position);
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      index++;
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+        fail('Expected a term after OR', peek()?.position ?? query.length);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      if (peek().kind === 'and') {
+        index++;
+        if (!peek()) fail('Expected a term after AND', query.length);
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token && (token.kind === 'minus' || token.kind === 'not')) {
+      index++;
+      if (!peek()) fail(`Expected a term after '${token.text}'`, query.length);
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      return fail('Unexpected end of query', query.length);
+    }
+
+    index++;
+    switch (token.kind) {
+      case 'lparen': {
+        if (peek()?.kind === 'rparen') fail('Empty parentheses', peek().position);
+        const inner = parseOr();
+        if (peek()?.kind !== 'rparen') {
+          fail("Unclosed '('", token.position);
+        }
+        index++;
+        return inner;
+      }
+      case 'word':
+      case 'phrase': {
+        const prefix = token.kind === 'word' && token.value.endsWith('*') && token.value.length > 1;
+        return {
+          type: 'term',
+          value: prefix ? token.value.slice(0, -1) : token.value,
+          phrase: token.kind === 'phrase',
+          prefix,
+          position: token.position
+        };
+      }
+      case 'field':
+        validateField(token, query);
+        return { type: 'field', field: token.field, op: token.op, value: token.value, position: token.position };
+      default:
+        return fail(`Unexpected '${token.text}'`, token.position);
+    }
+  };
+
+  if (tokens.length === 0) {
+    fail('Empty query', 0);
+  }
+
+  const ast = parseOr();
+  if (index < tokens.length) {
+    fail(`Unexpected '${tokens[index].text}'`, tokens[index].position);
+  }
+  return ast;
+}
+
+export function compileQuery(ast: QueryNode, now: number = Date.now()): CompiledQuery {
+  const params: any[] = [];
+  const positiveTerms: string[] = [];
+
+  const compile = (node: QueryNode, negated: boolean): string => {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        return `(${node.children.map(c => compile(c, negated)).join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+      case 'not':
+        return `NOT ${compile(node.child, !negated)}`;
+      case 'term': {
+        const match = ftsTerm(node);
+        if (!negated) positiveTerms.push(match);
+        params.push(match);
+        return 'm.rowid IN (SELECT rowid FROM mem_fts WHERE mem_fts MATCH ?)';
+      }
+      case 'field':
+        return compileField(node, params, now);
+    }
+  };
+
+  const where = compile(ast, false);
+  return {
+    where,
+    params,
+    rankMatch: positiveTerms.length > 0 ? positiveTerms.join(' OR ') : undefined
+  };
+}
+
+/**
+ * Render an AST back to a normalised query string (shown in debug output)
+ */
+export function describeQuery(node: QueryNode): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return `(${node.children.map(describeQuery).join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+    case 'not':
+      return `NOT ${describeQuery(node.child)}`;
+    case 'term':
+      return node.phrase ? `"${node.value}"` : `${node.value}${node.prefix ? '*' : ''}`;
+    case 'field':
+      return `${node.field}${node.op === '=' ? ':' : node.op}${node.value}`;
+  }
+}
+
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readPhrase = (start: number): { value: string; end: number } => {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QueryParseError('Unterminated quote', query, start);
+    }
+    return { value: query.substring(start + 1, close), end: close + 1 };
+  };
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen', position: i, text: ch });
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      const { value, end } = readPhrase(i);
+      if (!value.trim()) {
+        throw new QueryParseError('Empty phrase', query, i);
+      }
+      tokens.push({ kind: 'phrase', position: i, text: query.substring(i, end), value });
+      i = end;
+      continue;
+    }
+    if (ch === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: 'minus', position: i, text: '-' });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const fieldMatch = query.substring(i).match(FIELD_PATTERN);
+    if (fieldMatch) {
+      const field = fieldMatch[1].toLowerCase() as QueryField;
+      const op = (fieldMatch[2].replace(':', '') || '=') as QueryOperator;
+      i += fieldMatch[0].length;
+
+      let value: string;
+      if (query[i] === '"') {
+        const phrase = readPhrase(i);
+        value = phrase.value;
+        i = phrase.end;
+      } else {
+        const valueStart = i;
+        while (i < query.length && !/[\s()]/.test(query[i])) i++;
+        value = query.substring(valueStart, i);
+      }
+
+      if (!value) {
+        throw new QueryParseError(`Missing value for '${field}'`, query, i);
+      }
+      tokens.push({ kind: 'field', position: start, text: query.substring(start, i), field, op, value });
+      continue;
+    }
+
+    while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+    const word = query.substring(start, i);
+
+    if (word === 'OR' || word === 'AND' || word === 'NOT') {
+      tokens.push({ kind: word.toLowerCase() as 'or' | 'and' | 'not', position: start, text: word });
+    } else {
+      tokens.push({ kind: 'word', position: start, text: word, value: word });
+    }
+  }
+
+  return tokens;
+}
+
+function validateField(token: Extract<Token, { kind: 'field' }>, query: string) {
+  const valuePosition = token.position + token.text.length - token.value.length;
+
+  if (token.field === 'importance') {
+    const value = Number(token.value);
+    if (!Number.isInteger(value) || value < 1 || value > 5) {
+      throw new QueryParseError(`importance must be an integer from 1 to 5, got '${token.value}'`, query, valuePosition);
+    }
+  } else if (token.field === 'created' || token.field === 'updated') {
+    if (!parseDateRange(token.value, Date.now())) {
+      throw new QueryParseError(
+        `Invalid date '${token.value}' (use YYYY-MM-DD, YYYY-MM, YYYY or a relative age like 7d, 2w, 12h)`,
+        query,
+        valuePosition
+      );
+    }
+  } else if (token.op !== '=') {
+    throw new QueryParseError(`'${token.field}' only supports ':'`, query, token.position + token.field.length);
+  }
+}
+
+function compileField(node: Extract<QueryNode, { type: 'field' }>, params: any[], now: number): string {
+  switch (node.field) {
+    case 'tag':
+      params.push(node.value);
+      return 'EXISTS (SELECT 1 FROM json_each(m.tags) WHERE lower(value) = lower(?))';
+
+    case 'path': {
+      const patterns = pathPatterns(node.value);
+      params.push(...patterns);
+      return `EXISTS (SELECT 1 FROM json_each(m.paths) WHERE ${patterns.map(() => 'value GLOB ?').join(' OR ')})`;
+    }
+
+    case 'importance':
+      params.push(Number(node.value));
+      return `m.importance ${node.op} ?`;
+
+    case 'created':
+    case 'updated': {
+      const column = node.field === 'created' ? 'm.created_at' : 'm.updated_at';
+      const range = parseDateRange(node.value, now)!;
+      if (range.relative) {
+        // Relative values are ages: created:<7d is younger than 7 days
+        params.push(range.start);
+        switch (node.op) {
+          case '=':
+          case '<':
+            return `${column} > ?`;
+          case '<=':
+            return `${column} >= ?`;
+          case '>':
+            return `${column} < ?`;
+          case '>=':
+            return `${column} <= ?`;
+        }
+      }
+      switch (node.op) {
+        case '=':
+          params.push(range.start, range.end);
+          return `(${column} >= ? AND ${column} < ?)`;
+        case '>':
+          params.push(range.end);
+          return `${column} >= ?`;
+        case '>=':
+          params.push(range.start);
+          return `${column} >= ?`;
+        case '<':
+          params.push(range.start);
+          return `${column} < ?`;
+        case '<=':
+          params.push(range.end);
+          return `${column} < ?`;
+      }
+    }
+  }
+}
+
+/**
+ * GLOB patterns for a path filter. Bare directories match everything below
+ * them, and relative patterns also match absolute stored paths.
+ */
+function pathPatterns(value: string): string[] {
+  const glob = value.replace(/\*\*/g, '*');
+  const base = /[*?[]/.test(glob) ? [glob] : [glob, `${glob.replace(/\/$/, '')}/*`];
+  const isAbsolute = glob.startsWith('/') || glob.startsWith('*');
+  return isAbsolute ? base : [...base, ...base.map(p => `*/${p}`)];
+}
+
+/**
+ * Resolve a date literal to the UTC window it covers: a day, month or year,
+ * or for relative ages (7d, 2w, 12h) the instant that long ago.
+ */
+function parseDateRange(value: string, now: number): { start: number; end: number; relative?: boolean } | null {
+  const relative = value.match(/^(\d+)([hdwm])$/i);
+  if (relative) {
+    const unitMs = { h: 60 * 60 * 1000, d: DAY_MS, w: 7 * DAY_MS, m: 30 * DAY_MS }[relative[2].toLowerCase() as 'h' | 'd' | 'w' | 'm'];
+    const instant = now - Number(relative[1]) * unitMs;
+    return { start: instant, end: instant, relative: true };
+  }
+
+  const parts = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (!parts) return null;
+
+  const year = Number(parts[1]);
+  const month = parts[2] ? Number(parts[2]) - 1 : undefined;
+  const day = parts[3] ? Number(parts[3]) : undefined;
+
+  if (month !== undefined && (month < 0 || month > 11)) return null;
+  if (day !== undefined && (day < 1 || day > 31)) return null;
+
+  const start = Date.UTC(year, month ?? 0, day ?? 1);
+  const end = day !== undefined
+    ? start + DAY_MS
+    : month !== undefined
+      ? Date.UTC(year, month + 1, 1)
+      : Date.UTC(year + 1, 0, 1);
+
+  return { start, end };
+}
+
+function ftsTerm(node: Extract<QueryNode, { type: 'term' }>): string {
+  const quoted = `"${node.value.replace(/"/g, '""')}"`;
+  return node.prefix ? `${quoted}*` : quoted;
+}
\ No newline at end of file
@@ -0,0 +1,210 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+import { MCPLogger as Logger } from '../utils/mcp-logger.js';
+
+const logger = new Logger('RankingProfile');
+
+/**
+ * Weights for each component of ContextBroker's candidate score
+ */
+export interface RankingWeights {
+  project_match: number;
+  path_match: number;
+  /** Extra bonus when the path overlap is above 0.5 */
+  strong_path_bonus: number;
+  /** Replaces path_match when the task is a single word */
+  single_word_path_match: number;
+  tag_match: number;
+  single_word_tag_bonus: number;
+  recency: number;
+  importance: number;
+  cross_project_penalty: number;
+  search_relevance: number;
+  superseded_penalty: number;
+  /** How often a memory has been retrieved or injected before */
+  usage: number;
+  /** Helpful/unhelpful votes from memory_feedback */
+  feedback: number;
+  /** Memory was saved on the git branch being worked on */
+  branch_match: number;
+  concept_base: number;
+  concept_tag_match: number;
+  concept_importance: number;
+  concept_search_relevance: number;
+}
+
+export interface RankingProfile {
+  name: string;
+  description?: string;
+  weights: RankingWeights;
+  /** Candidates at least this similar to a selected item are dropped as redundant */
+  dedupe_threshold: number;
+  /** MMR trade-off: 1.0 ranks purely by relevance, lower values favour diversity */
+  mmr_lambda: number;
+}
+
+type ProfileOverrides = Partial<Omit<RankingProfile, 'name' | 'weights'>> & {
+  extends?: string;
+  weights?: Partial<RankingWeights>;
+};
+
+/**
+ * The `ranking` section of .kratos/config.yaml:
+ *
+ *   ranking:
+ *     preset: debugging          # active preset when a session starts
+ *     weights: { recency: 1.0 }  # overrides applied on top of every preset
+ *     presets:
+ *       reviewing:
+ *         extends: architecture
+ *         weights: { tag_match: 2.0 }
+ */
+export interface RankingConfig {
+  preset?: string;
+  weights?: Partial<RankingWeights>;
+  dedupe_threshold?: number;
+  mmr_lambda?: number;
+  presets?: Record<string, ProfileOverrides>;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  project_match: 1.5,
+  path_match: 2.0,
+  strong_path_bonus: 2.0,
+  single_word_path_match: 10.0,
+  tag_match: 0.8,
+  single_word_tag_bonus: 3.0,
+  recency: 0.6,
+  importance: 0.6,
+  cross_project_penalty: 1.0,
+  search_relevance: 1.0,
+  superseded_penalty: 2.0,
+  usage: 0.5,
+  feedback: 1.0,
+  branch_match: 0.8,
+  concept_base: 2.0,
+  concept_tag_match: 0.8,
+  concept_importance: 0.6,
+  concept_search_relevance: 1.0
+};
+
+export const BUILTIN_PRESETS: Record<string, ProfileOverrides> = {
+  default: {
+    description: 'Balanced ranking'
+  },
+  debugging: {
+    description: 'Recent, path-local memories about the code being changed',
+    weights: { recency: 1.5, path_match: 3.0, strong_path_bonus: 3.0, tag_match: 1.2, search_relevance: 2.0, importance: 0.3, concept_base: 1.0 },
+    mmr_lambda: 0.8
+  },
+  architecture: {
+    description: 'Important, long-lived decisions and concepts over recent activity',
+    weights: { importance: 1.2, recency: 0.2, path_match: 1.0, strong_path_bonus: 1.0, concept_base: 3.0, superseded_penalty: 4.0 },
+    mmr_lambda: 0.6
+  },
+  onboarding: {
+    description: 'A broad overview: high-importance memories and concepts across topics',
+    weights: { importance: 1.5, recency: 0.1, path_match: 0.5, strong_path_bonus: 0.5, single_word_path_match: 3.0, concept_base: 3.0, concept_importance: 1.0 },
+    mmr_lambda: 0.5
+  }
+};
+
+/**
+ * Read the ranking section of <projectRoot>/.kratos/config.yaml (empty if absent)
+ */
+export function loadRankingConfig(projectRoot: string): RankingConfig {
+  const configPath = path.join(projectRoot, '.kratos', 'config.yaml');
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    const config = yaml.load(fs.readFileSync(configPath, 'utf8')) as { ranking?: RankingConfig } | undefined;
+    return config?.ranking || {};
+  } catch (error) {
+    logger.warn(`Failed to load ranking config from ${configPath}, using defaults:`, error);
+    return {};
+  }
+}
+
+export function listPresets(config: RankingConfig): Array<{ name: string; description?: string; source: 'builtin' | 'config' }> {
+  const configured = config.presets || {};
+  const names = new Set([...Object.keys(BUILTIN_PRESETS), ...Object.keys(configured)]);
+  return Array.from(names).map(name => ({
+    name,
+    description: configured[name]?.description ?? BUILTIN_PRESETS[name]?.description,
+    source: configured[name] ? 'config' : 'builtin'
+  }));
+}
+
+/**
+ * Build the effective profile: defaults, then the preset chain (via
+ * `extends`), then the config's top-level overrides.
+ */
+export function resolveRankingProfile(config: RankingConfig, presetName?: string): RankingProfile {
+  const name = presetName || config.preset || 'default';
+  // A configured preset with a built-in name tweaks the built-in rather than replacing it
+  const presets: Record<string, ProfileOverrides> = { ...BUILTIN_PRESETS };
+  for (const [presetKey, preset] of Object.entries(config.presets || {})) {
+    const builtin = BUILTIN_PRESETS[presetKey];
+    presets[presetKey] = builtin
+      ? { ...builtin, ...preset, weights: { ...builtin.weights, ...preset.weights } }
+      : preset;
+  }
+
+  if (!presets[name]) {
+    throw new Error(`Unknown ranking preset '${name}'. Available: ${Object.keys(presets).join(', ')}`);
+  }
+
+  // Walk the extends chain from the base preset down to the requested one
+  const chain: ProfileOverrides[] = [];
+  const visited = new Set<string>();
+  let current: string | undefined = name;
+  while (current) {
+    if (visited.has(current)) {
+      throw new Error(`Ranking preset '${name}' has a circular extends chain`);
+    }
+    visited.add(current);
+
+    const preset: ProfileOverrides | undefined = presets[current];
+    if (!preset) {
+      throw new Error(`Ranking preset '${name}' extends unknown preset '${current}'`);
+    }
+    chain.unshift(preset);
+    current = preset.extends;
+  }
+
+  const profile: RankingProfile = {
+    name,
+    weights: { ...DEFAULT_RANKING_WEIGHTS },
+    dedupe_threshold: 0.8,
+    mmr_lambda: 0.7
+  };
+
+  for (const overrides of [...chain, config]) {
+    if ('description' in overrides && overrides.description) profile.description = overrides.description;
+    applyOverrides(profile, overrides, name);
+  }
+
+  return profile;
+}
+
+function applyOverrides(profile: RankingProfile, overrides: ProfileOverrides | RankingConfig, presetName: string) {
+  for (const [key, value] of Object.entries(overrides.weights || {})) {
+    if (!(key in DEFAULT_RANKING_WEIGHTS)) {
+      logger.warn(`Ignoring unknown ranking weight '${key}' (preset '${presetName}')`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      logger.warn(`Ignoring non-numeric ranking weight '${key}' (preset '${presetName}')`);
+    } else {
+      profile.weights[key as keyof RankingWeights] = value;
+    }
+  }
+
+  if (isFraction(overrides.dedupe_threshold)) profile.dedupe_threshold = overrides.dedupe_threshold;
+  if (isFraction(overrides.mmr_lambda)) profile.mmr_lambda = overrides.mmr_lambda;
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
\ No newline at end of file
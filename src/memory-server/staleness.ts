@@ -0,0 +1,182 @@
+/**
+ * Staleness of the files a memory refers to.
+ *
+ * When a memory is saved, each file in its paths is snapshotted: the git blob
+ * hash of its content, its mtime and size, and a MinHash signature of its
+ * lines. Comparing a snapshot with the file on disk tells apart untouched
+ * files, light edits, substantial rewrites and deletions. Directories,
+ * globs and unreadable files are not snapshotted.
+ */
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+
+export interface PathSnapshot {
+  /** The file, relative to the checkout root when inside it */
+  path: string;
+  /** Git blob hash of the content, as printed by `git hash-object` */
+  blob_hash: string;
+  mtime: number;
+  size: number;
+  /** MinHash signature of the distinct lines; empty for files too large to sketch */
+  signature: Uint32Array;
+  recorded_at: number;
+}
+
+export type PathStatus = 'unchanged' | 'modified' | 'changed' | 'deleted' | 'unreadable';
+
+export interface PathCheck {
+  path: string;
+  status: PathStatus;
+  /** Estimated share of lines the file still has in common with the snapshot */
+  similarity?: number;
+}
+
+/** Files keeping less than this share of their lines count as changed */
+export const DEFAULT_STALE_SIMILARITY = 0.6;
+
+const SIGNATURE_SIZE = 64;
+// Larger files are compared by hash only
+const MAX_SKETCH_BYTES = 2 * 1024 * 1024;
+const GLOB_CHARS = /[*?[\]{}]/;
+
+const SIGNATURE_SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * Snapshot of a file referenced by a memory, or null when the path is not a
+ * readable file (directories, globs, missing or unreadable files). Relative
+ * paths are looked up in baseDir (the memory's package) before the root.
+ */
+export function snapshotPath(root: string, memoryPath: string, baseDir: string = root): PathSnapshot | null {
+  if (GLOB_CHARS.test(memoryPath)) return null;
+
+  const candidates = path.isAbsolute(memoryPath)
+    ? [memoryPath]
+    : Array.from(new Set([path.resolve(baseDir, memoryPath), path.resolve(root, memoryPath)]));
+
+  for (const file of candidates) {
+    try {
+      const stat = fs.statSync(file, { throwIfNoEntry: false });
+      if (!stat?.isFile()) continue;
+
+      const content = fs.readFileSync(file);
+      return {
+        path: relativeToRoot(root, file),
+        blob_hash: blobHash(content),
+        mtime: Math.floor(stat.mtimeMs),
+        size: stat.size,
+        signature: content.length <= MAX_SKETCH_BYTES ? lineSignature(content.toString('utf8')) : new Uint32Array(0),
+        recorded_at: Date.now()
+      };
+    } catch {
+      // Permission errors and the like: the path is just not tracked
+    }
+  }
+  return null;
+}
+
+/**
+ * Compare a snapshot with the file as it is now
+ */
+export function checkSnapshot(
+  root: string,
+  snapshot: PathSnapshot,
+  threshold: number = DEFAULT_STALE_SIMILARITY
+): PathCheck {
+  const file = path.resolve(root, snapshot.path);
+  let content: Buffer;
+  try {
+    const stat = fs.statSync(file, { throwIfNoEntry: false });
+    if (!stat?.isFile()) {
+      return { path: snapshot.path, status: 'deleted' };
+    }
+
+    // Untouched files are recognised without reading them
+    if (Math.floor(stat.mtimeMs) === snapshot.mtime && stat.size === snapshot.size) {
+      return { path: snapshot.path, status: 'unchanged' };
+    }
+
+    content = fs.readFileSync(file);
+  } catch {
+    return { path: snapshot.path, status: 'unreadable' };
+  }
+
+  if (blobHash(content) === snapshot.blob_hash) {
+    return { path: snapshot.path, status: 'unchanged' };
+  }
+
+  if (snapshot.signature.length === 0 || content.length > MAX_SKETCH_BYTES) {
+    return { path: snapshot.path, status: 'changed' };
+  }
+
+  const similarity = signatureSimilarity(snapshot.signature, lineSignature(content.toString('utf8')));
+  return {
+    path: snapshot.path,
+    status: similarity >= threshold ? 'modified' : 'changed',
+    similarity: Number(similarity.toFixed(2))
+  };
+}
+
+export function isStale(checks: PathCheck[]): boolean {
+  return checks.some(check => check.status === 'changed' || check.status === 'deleted');
+}
+
+export function blobHash(content: Buffer): string {
+  return crypto.createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+function relativeToRoot(root: string, file: string): string {
+  const relative = path.relative(root, file);
+  return relative.startsWith('..') || path.isAbsolute(relative) ? file : relative.split(path.sep).join('/');
+}
+
+/**
+ * MinHash over the set of distinct, trimmed, non-empty lines. The share of
+ * positions where two signatures agree estimates the Jaccard similarity of
+ * the two line sets.
+ */
+function lineSignature(text: string): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  const lines = new Set(text.split('\n').map(line => line.trim()).filter(Boolean));
+
+  for (const line of lines) {
+    const hash = fnv1a(line);
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(hash ^ SIGNATURE_SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+function signatureSimilarity(a: Uint32Array, b: Uint32Array): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finaliser: spreads every input bit over the output
+function mix32(value: number): number {
+  let x = value >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
\ No newline at end of file
@@ -2,6 +2,16 @@ import { MCPLogger as Logger } from './utils/mcp-logger.js';
 import path from 'path';
 import fs from 'fs-extra';
 import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import {
+  ProjectFingerprint,
+  fingerprintKey,
+  fingerprintProjectId,
+  pinProjectId,
+  projectFingerprints
+} from './utils/project-identity.js';
+import { WorkspaceKind, WorkspacePackage, findWorkspace, packageForDir } from './utils/workspace.js';
+import { mainWorktreeRoot } from './utils/git.js';
 
 const logger = new Logger('ProjectManager');
 
@@ -11,6 +21,24 @@ export interface Project {
   root: string;
   createdAt: Date;
   lastAccessed: Date;
+  /** Git identity ('git-remote:github.com/acme/api'), so moved checkouts are recognised */
+  fingerprint?: string;
+  /** Monorepo members, each a named sub-scope of the project */
+  workspace?: {
+    kinds: WorkspaceKind[];
+    packages: WorkspacePackage[];
+  };
+  /** Hidden from project_list; cleared when the project is opened again */
+  archived?: boolean;
+}
+
+export interface ProjectSummary extends Project {
+  memoryCount: number | null;
+  diskUsage: number;
+  /** The project root no longer exists (or was never recorded) */
+  orphaned: boolean;
+  /** Listed in projects.json; false for data directories the registry lost track of */
+  registered: boolean;
 }
 
 /**
@@ -25,6 +53,10 @@ export interface Project {
 export class ProjectManager {
   private kratosHome: string;
   private currentProject: Project | null = null;
+  // Workspace member the project was detected from, if any
+  private currentPackage: WorkspacePackage | null = null;
+  // Working tree the project was detected from (a linked worktree or the main checkout)
+  private currentCheckout: string | null = null;
   private projectsCache: Map<string, Project> = new Map();
   
   constructor() {
@@ -35,52 +67,35 @@ export class ProjectManager {
   }
   
   /**
-   * Auto-detect project from current working directory
-   * Creates a project ID based on the directory path
+   * Auto-detect project from current working directory.
+   * Known projects are recognised by a pinned ID, git fingerprint or path, so
+   * a moved or re-cloned checkout keeps its memories; new projects get an ID
+   * derived from their strongest fingerprint. A workspace member resolves to
+   * its monorepo's project, with the member as the current package, and a
+   * linked git worktree to the project of its main checkout.
    */
   async detectProject(workingDir?: string): Promise<Project> {
-    const dir = workingDir || process.cwd();
-    
-    // Look for project markers in order of preference
-    const markers = [
-      '.git',           // Git repo
-      'package.json',   // Node project
-      'Cargo.toml',     // Rust project
-      'go.mod',         // Go project
-      'pyproject.toml', // Python project
-      '.kratos',        // Existing Kratos project
-    ];
-    
-    let projectRoot = dir;
-    let found = false;
-    
-    // Walk up directory tree to find project root
-    let currentDir = dir;
-    while (currentDir !== path.dirname(currentDir)) {
-      for (const marker of markers) {
-        if (await fs.pathExists(path.join(currentDir, marker))) {
-          projectRoot = currentDir;
-          found = true;
-          break;
-        }
-      }
-      if (found) break;
-      currentDir = path.dirname(currentDir);
-    }
-    
-    // Generate stable project ID from path
-    const projectId = this.generateProjectId(projectRoot);
-    const projectName = path.basename(projectRoot);
+    const dir = path.resolve(workingDir || process.cwd());
+    const { projectRoot, checkoutRoot, workspace } = await this.resolveRoot(dir);
+    const workspaceInfo = workspace ? { kinds: workspace.kinds, packages: workspace.packages } : undefined;
+    const fingerprints = await projectFingerprints(checkoutRoot);
+    const gitFingerprint = fingerprints.find(f => f.source !== 'pinned');
     
     // Check if we already know this project
-    let project = this.projectsCache.get(projectId);
+    let project = await this.findExisting(projectRoot, fingerprints);
     
     if (!project) {
       // New project - create it
+      const projectId = fingerprints.length > 0
+        ? fingerprintProjectId(fingerprints[0])
+        : this.generateProjectId(projectRoot);
+      const projectName = path.basename(projectRoot);
       project = {
         id: projectId,
         name: projectName,
         root: projectRoot,
+        fingerprint: gitFingerprint && fingerprintKey(gitFingerprint),
+        workspace: workspaceInfo,
         createdAt: new Date(),
         lastAccessed: new Date()
       };
@@ -90,24 +105,102 @@ export class ProjectManager {
       await fs.ensureDir(projectDir);
       
       // Save project metadata
-      await fs.writeJson(
-        path.join(projectDir, 'project.json'),
-        project,
-        { spaces: 2 }
-      );
+      await this.writeProjectFile(project);
       
       this.projectsCache.set(projectId, project);
       logger.info(`Created new project: ${projectName} (${projectId})`);
     } else {
       // Update last accessed
       project.lastAccessed = new Date();
+      let changed = !this.projectsCache.has(project.id);
+
+      if (!project.root || path.resolve(project.root) !== path.resolve(projectRoot)) {
+        logger.info(`Recognised ${project.name} (${project.id}) at ${projectRoot}${project.root ? `, previously ${project.root}` : ''}`);
+        project.root = projectRoot;
+        changed = true;
+      }
+      if (gitFingerprint && project.fingerprint !== fingerprintKey(gitFingerprint)) {
+        project.fingerprint = fingerprintKey(gitFingerprint);
+        changed = true;
+      }
+      if (project.archived) {
+        project.archived = false;
+        changed = true;
+        logger.info(`Unarchived project on access: ${project.name} (${project.id})`);
+      }
+      if (JSON.stringify(project.workspace) !== JSON.stringify(workspaceInfo)) {
+        project.workspace = workspaceInfo;
+        changed = true;
+      }
+
+      if (changed) {
+        this.projectsCache.set(project.id, project);
+        await this.writeProjectFile(project);
+      }
     }
     
     this.currentProject = project;
+    this.currentPackage = workspace ? packageForDir(workspace, dir) : null;
+    this.currentCheckout = checkoutRoot;
     this.saveProjectsCache();
     
     return project;
   }
+
+  /**
+   * Reattach an existing store to a checkout that was moved or cloned
+   * elsewhere. Other projects claiming the same checkout are detached; they
+   * show up as orphaned in project_list, ready to merge or delete.
+   */
+  async relinkProject(projectId: string, checkoutDir: string, options: { pin?: boolean } = {}): Promise<{
+    project: Project;
+    previousRoot: string;
+    detached: string[];
+    pinFile?: string;
+  }> {
+    const project = await this.getProject(projectId);
+    if (!(await fs.pathExists(checkoutDir))) {
+      throw new Error(`Checkout not found: ${checkoutDir}`);
+    }
+
+    const { projectRoot, checkoutRoot } = await this.resolveRoot(checkoutDir);
+    const fingerprints = await projectFingerprints(checkoutRoot);
+    const keys = fingerprints.map(fingerprintKey);
+    const gitFingerprint = fingerprints.find(f => f.source !== 'pinned');
+
+    const detached: string[] = [];
+    for (const other of this.projectsCache.values()) {
+      if (other.id === projectId) continue;
+      const claimsCheckout = (other.fingerprint && keys.includes(other.fingerprint))
+        || (other.root && path.resolve(other.root) === path.resolve(projectRoot));
+      if (claimsCheckout) {
+        other.root = '';
+        other.fingerprint = undefined;
+        await this.writeProjectFile(other);
+        detached.push(other.id);
+      }
+    }
+
+    // A pin naming another project would win over everything else
+    const pinned = fingerprints.find(f => f.source === 'pinned');
+    const pinFile = options.pin || (pinned && pinned.value !== projectId)
+      ? await pinProjectId(projectRoot, projectId)
+      : undefined;
+
+    const previousRoot = project.root;
+    project.root = projectRoot;
+    project.fingerprint = gitFingerprint && fingerprintKey(gitFingerprint);
+    project.archived = false;
+    await this.register(project);
+
+    if (this.currentProject && (this.currentProject.id === projectId || detached.includes(this.currentProject.id))) {
+      this.currentProject = project;
+      this.currentCheckout = checkoutRoot;
+    }
+
+    logger.info(`Relinked project ${project.name} (${projectId}) to ${projectRoot}`);
+    return { project, previousRoot, detached, pinFile };
+  }
   
   /**
    * Switch to a different project
@@ -123,6 +216,10 @@ export class ProjectManager {
       } else {
         throw new Error(`Project not found: ${projectIdOrPath}`);
       }
+    } else {
+      // Switching by ID starts at the repository root
+      this.currentPackage = null;
+      this.currentCheckout = project.root || null;
     }
     
     this.currentProject = project;
@@ -162,12 +259,126 @@ export class ProjectManager {
       .sort((a, b) => b.lastAccessed.getTime() - a.lastAccessed.getTime());
   }
   
+  /**
+   * Every project with data on disk, plus registered projects without data,
+   * with memory counts and disk usage. Archived projects are skipped unless asked for.
+   */
+  async describeProjects(options: { includeArchived?: boolean } = {}): Promise<ProjectSummary[]> {
+    const projectsDir = path.join(this.kratosHome, 'projects');
+    const onDisk = await fs.pathExists(projectsDir)
+      ? (await fs.readdir(projectsDir)).filter(name => name.startsWith('proj_'))
+      : [];
+    const ids = new Set([...this.projectsCache.keys(), ...onDisk]);
+
+    const summaries: ProjectSummary[] = [];
+    for (const id of ids) {
+      const registered = this.projectsCache.has(id);
+      const project = this.projectsCache.get(id) ?? await this.readProjectFile(id);
+      if (project.archived && !options.includeArchived) continue;
+
+      summaries.push({
+        ...project,
+        memoryCount: this.countMemories(id),
+        diskUsage: await this.diskUsage(this.getProjectDir(id)),
+        orphaned: !project.root || !(await fs.pathExists(project.root)),
+        registered
+      });
+    }
+
+    return summaries.sort((a, b) => b.lastAccessed.getTime() - a.lastAccessed.getTime());
+  }
+
+  /**
+   * Look up a project by ID, falling back to its data directory when the
+   * registry has lost track of it
+   */
+  async getProject(projectId: string): Promise<Project> {
+    const project = await this.lookup(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+    return project;
+  }
+
+  async renameProject(projectId: string, name: string): Promise<Project> {
+    if (!name.trim()) {
+      throw new Error('Project name cannot be empty');
+    }
+
+    const project = await this.getProject(projectId);
+    const previous = project.name;
+    project.name = name.trim();
+    await this.register(project);
+
+    logger.info(`Renamed project ${projectId}: ${previous} -> ${project.name}`);
+    return project;
+  }
+
+  async setArchived(projectId: string, archived: boolean): Promise<Project> {
+    if (archived && this.currentProject?.id === projectId) {
+      throw new Error('Cannot archive the active project; switch to another project first');
+    }
+
+    const project = await this.getProject(projectId);
+    project.archived = archived;
+    await this.register(project);
+
+    logger.info(`${archived ? 'Archived' : 'Unarchived'} project: ${project.name} (${projectId})`);
+    return project;
+  }
+
+  /**
+   * Remove a project's data directory and registry entry
+   */
+  async deleteProject(projectId: string): Promise<{ project: Project; freedBytes: number }> {
+    if (this.currentProject?.id === projectId) {
+      throw new Error('Cannot delete the active project; switch to another project first');
+    }
+
+    const project = await this.getProject(projectId);
+    const projectDir = this.getProjectDir(projectId);
+    const freedBytes = await this.diskUsage(projectDir);
+
+    await fs.remove(projectDir);
+    this.projectsCache.delete(projectId);
+    this.saveProjectsCache();
+
+    logger.info(`Deleted project: ${project.name} (${projectId})`);
+    return { project, freedBytes };
+  }
+
   /**
    * Get current active project
    */
   getCurrentProject(): Project | null {
     return this.currentProject;
   }
+
+  /**
+   * Workspace member of the active project that Kratos was started in, if any
+   */
+  getCurrentPackage(): WorkspacePackage | null {
+    return this.currentPackage;
+  }
+
+  /**
+   * Working tree of the active project that Kratos was started in; differs
+   * from the project root inside a linked git worktree
+   */
+  getCurrentCheckout(): string | null {
+    return this.currentCheckout;
+  }
+
+  /**
+   * Registered projects rooted inside a project, e.g. packages that were
+   * separate projects before their monorepo was recognised as a workspace
+   */
+  findNestedProjects(project: Project): Project[] {
+    const root = path.resolve(project.root);
+    return this.listProjects().filter(p =>
+      p.id !== project.id && p.root && path.resolve(p.root).startsWith(root + path.sep)
+    );
+  }
   
   /**
    * Clean up old project data (optional)
@@ -196,10 +407,163 @@ export class ProjectManager {
   }
   
   /**
-   * Generate stable project ID from path
+   * The project root for a directory: the nearest project marker, widened to
+   * the enclosing monorepo when that marker is a workspace member. All
+   * worktrees of a repository share the main checkout as their project root.
+   */
+  private async resolveRoot(dir: string) {
+    const markerRoot = await this.findProjectRoot(dir);
+    const workspace = await findWorkspace(markerRoot);
+    const checkoutRoot = workspace?.root ?? markerRoot;
+    const mainCheckout = await mainWorktreeRoot(checkoutRoot);
+    return { projectRoot: mainCheckout ?? checkoutRoot, checkoutRoot, workspace };
+  }
+
+  /**
+   * Walk up from a directory to the nearest project marker
+   */
+  private async findProjectRoot(dir: string): Promise<string> {
+    // Look for project markers in order of preference
+    const markers = [
+      '.git',           // Git repo
+      'package.json',   // Node project
+      'Cargo.toml',     // Rust project
+      'go.mod',         // Go project
+      'pyproject.toml', // Python project
+      '.kratos',        // Existing Kratos project
+    ];
+    
+    // Walk up directory tree to find project root
+    let currentDir = path.resolve(dir);
+    while (currentDir !== path.dirname(currentDir)) {
+      for (const marker of markers) {
+        if (await fs.pathExists(path.join(currentDir, marker))) {
+          return currentDir;
+        }
+      }
+      currentDir = path.dirname(currentDir);
+    }
+    return dir;
+  }
+
+  /**
+   * The known project for a checkout, from the most to the least specific evidence
+   */
+  private async findExisting(projectRoot: string, fingerprints: ProjectFingerprint[]): Promise<Project | undefined> {
+    const pinned = fingerprints.find(f => f.source === 'pinned');
+    if (pinned) {
+      return this.lookup(pinned.value);
+    }
+
+    const keys = fingerprints.map(fingerprintKey);
+    const projects = this.listProjects();
+    const byFingerprint = projects.find(p => p.fingerprint && keys.includes(p.fingerprint));
+    if (byFingerprint) return byFingerprint;
+
+    const byRoot = projects.find(p => p.root && path.resolve(p.root) === path.resolve(projectRoot));
+    if (byRoot) return byRoot;
+
+    // Stores the registry lost track of: the path-based ID older versions
+    // used, then IDs derived from fingerprints
+    for (const projectId of [this.generateProjectId(projectRoot), ...fingerprints.map(fingerprintProjectId)]) {
+      const found = await this.lookup(projectId);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  private async lookup(projectId: string): Promise<Project | undefined> {
+    const cached = this.projectsCache.get(projectId);
+    if (cached) return cached;
+
+    if (!projectId.startsWith('proj_') || !(await fs.pathExists(this.getProjectDir(projectId)))) {
+      return undefined;
+    }
+    return this.readProjectFile(projectId);
+  }
+
+  private countMemories(projectId: string): number | null {
+    const dbPath = path.join(this.getProjectDir(projectId), 'databases', 'memories.db');
+    if (!fs.existsSync(dbPath)) return 0;
+
+    try {
+      const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+      try {
+        return (db.prepare('SELECT COUNT(*) AS count FROM memories').get() as { count: number }).count;
+      } finally {
+        db.close();
+      }
+    } catch (error) {
+      logger.warn(`Could not count memories for ${projectId}:`, error);
+      return null;
+    }
+  }
+
+  private async diskUsage(target: string): Promise<number> {
+    if (!(await fs.pathExists(target))) return 0;
+
+    const stat = await fs.stat(target);
+    if (!stat.isDirectory()) return stat.size;
+
+    let total = 0;
+    for (const entry of await fs.readdir(target)) {
+      total += await this.diskUsage(path.join(target, entry));
+    }
+    return total;
+  }
+
+  /**
+   * Metadata from a project's own project.json; directories without one get
+   * a placeholder named after the ID and dated from the directory itself
+   */
+  private async readProjectFile(projectId: string): Promise<Project> {
+    const projectDir = this.getProjectDir(projectId);
+    const projectFile = path.join(projectDir, 'project.json');
+
+    if (await fs.pathExists(projectFile)) {
+      try {
+        const project = await fs.readJson(projectFile);
+        return {
+          ...project,
+          id: projectId,
+          createdAt: new Date(project.createdAt),
+          lastAccessed: new Date(project.lastAccessed)
+        };
+      } catch (error) {
+        logger.warn(`Unreadable project.json for ${projectId}:`, error);
+      }
+    }
+
+    const stat = await fs.stat(projectDir);
+    return {
+      id: projectId,
+      name: projectId,
+      root: '',
+      createdAt: stat.birthtime,
+      lastAccessed: stat.mtime
+    };
+  }
+
+  private async writeProjectFile(project: Project): Promise<void> {
+    const projectDir = this.getProjectDir(project.id);
+    await fs.ensureDir(projectDir);
+    await fs.writeJson(path.join(projectDir, 'project.json'), project, { spaces: 2 });
+  }
+
+  /**
+   * Persist project metadata to both project.json and the registry
+   */
+  private async register(project: Project): Promise<void> {
+    this.projectsCache.set(project.id, project);
+    await this.writeProjectFile(project);
+    this.saveProjectsCache();
+  }
+
+  /**
+   * Path-based project ID, used when a project has no fingerprint
    */
   private generateProjectId(projectPath: string): string {
-    // Use hash of normalized path for stable ID
+    // Use hash of normalized path; projects created before fingerprints keep these IDs
     const normalized = path.resolve(projectPath).toLowerCase();
     const hash = crypto.createHash('sha256').update(normalized).digest('hex');
     return `proj_${hash.substring(0, 12)}`;
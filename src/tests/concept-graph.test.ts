@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConceptGraph } from '../memory-server/concept-store.js';
+import { toDot, toMermaid } from '../memory-server/concept-graph.js';
+
+const graph: ConceptGraph = {
+  roots: ['jwt'],
+  nodes: [
+    { id: 'jwt', title: 'JWT "auth"', tags: ['auth'], importance: 5, depth: 0 },
+    { id: 'sessions', title: 'Sessions', tags: ['auth'], importance: 3, depth: 1 },
+    { id: 'rbac.v2', title: 'RBAC', tags: ['security'], importance: 4, depth: 1 }
+  ],
+  edges: [
+    { concept_id: 'jwt', related_id: 'sessions', relationship_type: 'related', strength: 0.5 },
+    { concept_id: 'rbac.v2', related_id: 'jwt', relationship_type: 'prerequisite', strength: 0.8 }
+  ]
+};
+
+test('DOT output marks roots and styles edges by type', () => {
+  assert.equal(toDot(graph), [
+    'digraph concepts {',
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded];',
+    '  "jwt" [label="JWT \\"auth\\"", penwidth=2];',
+    '  "sessions" [label="Sessions"];',
+    '  "rbac.v2" [label="RBAC"];',
+    '  "jwt" -> "sessions" [label="related", dir=none];',
+    '  "rbac.v2" -> "jwt" [label="prerequisite"];',
+    '}'
+  ].join('\n'));
+});
+
+test('Mermaid output uses positional node IDs', () => {
+  assert.equal(toMermaid(graph), [
+    'graph LR',
+    '  n0["JWT #quot;auth#quot;"]',
+    '  n1["Sessions"]',
+    '  n2["RBAC"]',
+    '  n0 ---|related| n1',
+    '  n2 -->|prerequisite| n0',
+    '  classDef root stroke-width:3px',
+    '  class n0 root'
+  ].join('\n'));
+});
+
+test('conflict edges are dashed', () => {
+  const conflicting: ConceptGraph = {
+    ...graph,
+    edges: [{ concept_id: 'jwt', related_id: 'sessions', relationship_type: 'conflicts', strength: 0.9 }]
+  };
+  assert.match(toDot(conflicting), /"jwt" -> "sessions" \[label="conflicts", style=dashed, color=red\];/);
+  assert.match(toMermaid(conflicting), /n0 -\.->\|conflicts\| n1/);
+});
\ No newline at end of file
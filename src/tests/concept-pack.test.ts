@@ -0,0 +1,96 @@
+import './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConceptStore } from '../memory-server/concept-store.js';
+import { exportPack, importPack, parsePack, serializePack } from '../memory-server/concept-pack.js';
+
+let nextProject = 0;
+
+function packStore(): ConceptStore {
+  return ConceptStore.getInstance(`pack-${++nextProject}`);
+}
+
+function seed(store: ConceptStore) {
+  store.save({ id: 'retries', title: 'Retries', body: 'Retry idempotent calls with backoff', tags: ['resilience'], importance: 4 });
+  store.save({ id: 'timeouts', title: 'Timeouts', body: 'Every outbound call gets a timeout', tags: ['net'] });
+  store.save({ id: 'logging', title: 'Logging', body: 'Log the request id with every error', tags: ['ops'] });
+  store.addRelationships('retries', ['timeouts'], 'prerequisite', 0.9);
+  store.addRelationships('retries', ['logging'], 'related', 0.4);
+}
+
+test('exported packs round-trip through JSON and YAML', () => {
+  const source = packStore();
+  seed(source);
+
+  const pack = exportPack(source, { ids: ['retries', 'timeouts'], name: 'resilience' });
+  assert.deepEqual(pack.concepts.map(c => c.id).sort(), ['retries', 'timeouts']);
+  // The edge to a concept left out of the pack is dropped
+  assert.deepEqual(pack.relationships, [{ from: 'retries', to: 'timeouts', type: 'prerequisite', strength: 0.9 }]);
+
+  for (const format of ['json', 'yaml'] as const) {
+    const parsed = parsePack(serializePack(pack, format));
+    assert.deepEqual(parsed.concepts, pack.concepts);
+    assert.deepEqual(parsed.relationships, pack.relationships);
+    assert.equal(parsed.name, 'resilience');
+  }
+
+  assert.deepEqual(exportPack(source, { tags: ['ops'] }).concepts.map(c => c.id), ['logging']);
+});
+
+test('imports skip, overwrite or rename concepts that already exist', () => {
+  const source = packStore();
+  seed(source);
+  const pack = exportPack(source);
+
+  const target = packStore();
+  target.save({ id: 'retries', title: 'Retries', body: 'Never retry', tags: ['local'] });
+
+  const skipped = importPack(target, pack, 'skip');
+  assert.deepEqual(skipped.skipped, ['retries']);
+  assert.deepEqual(skipped.created.sort(), ['logging', 'timeouts']);
+  assert.equal(target.get('retries')?.body, 'Never retry');
+  // Relationships still attach to the concept that was kept
+  assert.equal(skipped.relationships, 2);
+
+  const renamed = importPack(target, pack, 'rename');
+  assert.deepEqual(renamed.renamed.map(r => r.from).sort(), ['logging', 'retries', 'timeouts']);
+  assert.equal(target.get('retries-2')?.body, 'Retry idempotent calls with backoff');
+  assert.equal(target.get('retries-2')?.source, 'imported');
+  assert.ok(target.getRelationships('retries-2').some(r => r.related_id === 'timeouts-2' && r.relationship_type === 'prerequisite'));
+
+  const overwritten = importPack(target, pack, 'overwrite');
+  assert.deepEqual(overwritten.overwritten.sort(), ['logging', 'retries', 'timeouts']);
+  assert.equal(target.get('retries')?.body, 'Retry idempotent calls with backoff');
+
+  assert.throws(() => importPack(target, pack, 'merge' as any), /Unknown conflict strategy 'merge'/);
+});
+
+test('invalid packs are rejected with the reason', () => {
+  assert.throws(() => parsePack('{ not yaml: ['), /Invalid concept pack/);
+  assert.throws(() => parsePack('format: something-else'), /expected format 'kratos-concept-pack'/);
+  assert.throws(() => parsePack('format: kratos-concept-pack\nversion: 99\nconcepts: []'), /Unsupported concept pack version 99/);
+  assert.throws(
+    () => parsePack('format: kratos-concept-pack\nversion: 1\nconcepts:\n  - id: x\n    title: X'),
+    /concept #1 needs string id, title and body/
+  );
+  assert.throws(
+    () => parsePack('format: kratos-concept-pack\nversion: 1\nconcepts: []\nrelationships:\n  - { from: a, to: b, type: owns }'),
+    /relationship #1 has unknown type 'owns'/
+  );
+
+  const lenient = parsePack('format: kratos-concept-pack\nversion: 1\nconcepts:\n  - { id: x, title: X, body: B, importance: 9 }');
+  assert.deepEqual(lenient.concepts, [{ id: 'x', title: 'X', body: 'B', tags: [], importance: 3 }]);
+});
+
+test('every typed edge between two concepts is exported', () => {
+  const source = packStore();
+  seed(source);
+  source.addRelationships('retries', ['timeouts'], 'conflicts', 0.7);
+
+  const pack = exportPack(source, { ids: ['retries', 'timeouts'] });
+  assert.deepEqual(pack.relationships.map(r => r.type).sort(), ['conflicts', 'prerequisite']);
+
+  const target = packStore();
+  importPack(target, parsePack(serializePack(pack)));
+  assert.deepEqual(target.getRelationships('retries').map(r => r.relationship_type).sort(), ['conflicts', 'prerequisite']);
+});
\ No newline at end of file
@@ -0,0 +1,251 @@
+import './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ConceptStore } from '../memory-server/concept-store.js';
+import { MemoryDatabase } from '../memory-server/database.js';
+
+function projectStorePath(projectId: string): string {
+  return path.join(os.homedir(), '.kratos', 'projects', projectId, 'databases', 'concepts.db');
+}
+
+function userVersion(file: string): number {
+  const db = new Database(file, { readonly: true });
+  try {
+    return db.pragma('user_version', { simple: true }) as number;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * A concepts.db as written by ConceptStoreEnhanced, before schema versioning
+ */
+function writeUnversionedStore(file: string) {
+  fs.ensureDirSync(path.dirname(file));
+  const db = new Database(file);
+  db.exec(`
+    CREATE TABLE concepts (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      body TEXT NOT NULL,
+      tags TEXT DEFAULT '[]',
+      importance INTEGER DEFAULT 3 CHECK(importance >= 1 AND importance <= 5),
+      usage_count INTEGER DEFAULT 0,
+      last_used INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      source TEXT DEFAULT 'manual',
+      confidence REAL DEFAULT 1.0
+    );
+
+    CREATE TABLE concept_relationships (
+      concept_id TEXT NOT NULL,
+      related_id TEXT NOT NULL,
+      relationship_type TEXT DEFAULT 'related',
+      strength REAL DEFAULT 0.5,
+      PRIMARY KEY (concept_id, related_id)
+    );
+
+    CREATE TABLE project_allowlists (
+      project_id TEXT NOT NULL,
+      concept_id TEXT NOT NULL,
+      added_at INTEGER NOT NULL,
+      auto_suggested BOOLEAN DEFAULT 0,
+      accepted BOOLEAN DEFAULT 1,
+      PRIMARY KEY (project_id, concept_id)
+    );
+
+    CREATE VIRTUAL TABLE concept_fts USING fts5(title, body, content='concepts', content_rowid='rowid');
+    CREATE TRIGGER concept_fts_insert AFTER INSERT ON concepts BEGIN
+      INSERT INTO concept_fts(rowid, title, body) VALUES (new.rowid, new.title, new.body);
+    END;
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO concepts (id, title, body, tags, usage_count, created_at, updated_at, source)
+    VALUES (?, ?, ?, ?, ?, 1, 1, ?)
+  `);
+  insert.run('jwt-rotation', 'JWT rotation', 'Rotate signing keys every 90 days', '["auth"]', 7, 'manual');
+  insert.run('session-cookies', 'Session cookies', 'Cookies are httpOnly and sameSite', '["web"]', 0, 'discovered');
+  db.prepare('INSERT INTO concept_relationships VALUES (?, ?, ?, ?)').run('jwt-rotation', 'session-cookies', 'related', 0.7);
+  db.prepare('INSERT INTO project_allowlists (project_id, concept_id, added_at) VALUES (?, ?, 1)').run('proj_a', 'jwt-rotation');
+  db.close();
+}
+
+test('an unversioned store is migrated in place', () => {
+  const file = projectStorePath('legacy-project');
+  writeUnversionedStore(file);
+
+  const store = ConceptStore.getInstance('legacy-project');
+  ConceptStore.getInstance('fresh-project');
+  assert.equal(userVersion(file), userVersion(projectStorePath('fresh-project')));
+  assert.equal(store.get('jwt-rotation')?.usage_count, 7);
+  assert.deepEqual(store.getRelationships('jwt-rotation').map(r => r.related_id), ['session-cookies']);
+
+  // Tags became searchable when the index was rebuilt
+  assert.deepEqual(store.search({ q: 'auth' }).map(r => r.concept.id), ['jwt-rotation']);
+});
+
+test('the library imports the legacy global pseudo-project instead of seeding', () => {
+  writeUnversionedStore(projectStorePath('global'));
+
+  const library = ConceptStore.getGlobal();
+  assert.equal(library.get('jwt-rotation')?.usage_count, 7);
+  assert.ok(library.get('session-cookies'));
+  assert.equal(library.get('jwt-auth-v2'), null);
+  assert.deepEqual(library.getRelationships('jwt-rotation').map(r => r.related_id), ['session-cookies']);
+
+  const results = ConceptStore.searchAll('proj_a', { q: 'rotation', allowlistedOnly: true });
+  assert.deepEqual(results.map(r => [r.concept.id, r.origin]), [['jwt-rotation', 'global']]);
+});
+
+test('a project concept shadows the library concept with the same ID', () => {
+  ConceptStore.getInstance('shadowing').save({ id: 'jwt-rotation', title: 'JWT rotation', body: 'Rotate signing keys every 30 days' });
+
+  const results = ConceptStore.searchAll('shadowing', { q: 'rotation' });
+  assert.deepEqual(results.map(r => [r.concept.id, r.origin]), [['jwt-rotation', 'project']]);
+  assert.equal(results[0].concept.body, 'Rotate signing keys every 30 days');
+});
+
+test('linking a concept copies it into a memory once and refreshes it on request', async () => {
+  const store = ConceptStore.getInstance('linking');
+  const memoryDb = new MemoryDatabase('/tmp/linking', 'linking');
+  try {
+    const { id } = store.save({ title: 'Feature flags', body: 'Ship behind a flag, remove it after a release', tags: ['release'] });
+    const unrelated = memoryDb.save({ summary: 'Feature flags', text: 'the flag service is LaunchDarkly' });
+
+    const created = store.linkToProject(id, 'linking', memoryDb);
+    assert.equal(created.action, 'created');
+    assert.notEqual(created.memoryId, unrelated.id);
+    assert.equal(memoryDb.get(unrelated.id)?.text, 'the flag service is LaunchDarkly');
+    assert.deepEqual(memoryDb.get(created.memoryId)?.tags, ['release', 'concept']);
+    assert.deepEqual(store.linkToProject(id, 'linking', memoryDb), { memoryId: created.memoryId, action: 'unchanged' });
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    store.save({ id, title: 'Feature flags', body: 'Ship behind a flag, remove it within two releases', tags: ['release'] });
+    assert.deepEqual(store.getLinkedMemories('linking').map(l => [l.memory_id, l.status]), [[created.memoryId, 'updated']]);
+
+    assert.deepEqual(store.linkToProject(id, 'linking', memoryDb, { refresh: true }), { memoryId: created.memoryId, action: 'refreshed' });
+    assert.equal(memoryDb.get(created.memoryId)?.text, 'Ship behind a flag, remove it within two releases');
+    assert.equal(store.getLinkedMemories('linking', [created.memoryId])[0]?.status, 'current');
+    assert.throws(() => store.linkToProject('missing', 'linking', memoryDb), /Concept not found/);
+  } finally {
+    memoryDb.close();
+  }
+});
+
+test('discovered concepts from an unversioned store wait for review', () => {
+  writeUnversionedStore(projectStorePath('legacy-review'));
+
+  const store = ConceptStore.getInstance('legacy-review');
+  assert.equal(store.get('jwt-rotation')?.review_status, 'accepted');
+  assert.equal(store.get('session-cookies')?.review_status, 'pending');
+  assert.deepEqual(store.search({ q: 'cookies', reviewedOnly: true }), []);
+});
+
+test('rejected discoveries are not rediscovered and accepted ones become reviewed', () => {
+  const store = ConceptStore.getInstance('review-queue');
+  const text = 'Best practice: validate every request body against its schema. Always log the request id with each error';
+
+  const discovered = store.autoDiscover(text);
+  assert.equal(discovered.length, 2);
+  assert.deepEqual(store.listDiscovered().map(c => c.review_status), ['pending', 'pending']);
+
+  const [rejected, accepted] = discovered;
+  assert.equal(store.rejectDiscovered(rejected.id), true);
+  assert.equal(store.acceptDiscovered(accepted.id), true);
+  assert.equal(store.get(accepted.id)?.confidence, 1);
+  assert.deepEqual(store.listDiscovered(), []);
+
+  // Neither the rejected nor the accepted text comes back
+  assert.deepEqual(store.autoDiscover(text), []);
+});
+
+test('rejected suggestions are not suggested to the project again', () => {
+  const store = ConceptStore.getInstance('suggestions');
+  const { id: retries } = store.save({ title: 'Retry with backoff', body: 'Retry idempotent calls with exponential backoff' });
+  const { id: timeouts } = store.save({ title: 'Timeouts everywhere', body: 'Every outbound call gets a timeout' });
+
+  const suggested = store.suggestForProject('proj_s', 'outbound calls with backoff');
+  assert.deepEqual(suggested.map(c => c.id).sort(), [retries, timeouts].sort());
+  assert.deepEqual(store.listSuggestions('proj_s').map(c => c.id).sort(), [retries, timeouts].sort());
+
+  assert.equal(store.acceptSuggestion('proj_s', retries), true);
+  assert.equal(store.rejectSuggestion('proj_s', timeouts), true);
+  assert.deepEqual(store.updateAllowlist({ projectId: 'proj_s', list: true }), { allowlist: [retries], suggested: [] });
+  assert.deepEqual(store.suggestForProject('proj_s', 'outbound calls with backoff'), []);
+});
+
+test('traverse walks relationships breadth-first from a concept or a tag', () => {
+  const store = ConceptStore.getInstance('graph');
+  store.save({ id: 'http', title: 'HTTP clients', body: 'Use one shared client', tags: ['net'] });
+  store.save({ id: 'retries', title: 'Retries', body: 'Retry with backoff', tags: ['resilience'] });
+  store.save({ id: 'idempotency', title: 'Idempotency keys', body: 'Send a key with each retried write', tags: ['api'] });
+  store.addRelationships('http', ['retries'], 'related');
+  store.addRelationships('idempotency', ['retries'], 'prerequisite');
+
+  const shallow = store.traverse({ id: 'http' }, { depth: 1 })!;
+  assert.deepEqual(shallow.nodes.map(n => [n.id, n.depth]), [['http', 0], ['retries', 1]]);
+
+  const deep = store.traverse({ id: 'http' })!;
+  assert.deepEqual(deep.nodes.map(n => [n.id, n.depth]), [['http', 0], ['retries', 1], ['idempotency', 2]]);
+  assert.equal(deep.edges.length, 2);
+
+  const related = store.traverse({ id: 'http' }, { types: ['related'] })!;
+  assert.deepEqual(related.nodes.map(n => n.id), ['http', 'retries']);
+
+  assert.deepEqual(store.traverse({ tag: 'api' })?.roots, ['idempotency']);
+  assert.equal(store.traverse({ id: 'missing' }), null);
+  assert.equal(store.traverse({}), null);
+});
+
+test('two concepts can be related and in conflict at the same time', () => {
+  writeUnversionedStore(projectStorePath('legacy-typed'));
+
+  const store = ConceptStore.getInstance('legacy-typed');
+  // Relationships are keyed by type since migration 8
+  store.addRelationships('jwt-rotation', ['session-cookies'], 'conflicts', 0.9, 'opposite advice');
+  assert.deepEqual(
+    store.getRelationships('jwt-rotation').map(r => r.relationship_type).sort(),
+    ['conflicts', 'related']
+  );
+
+  const graph = store.traverse({ id: 'jwt-rotation' })!;
+  assert.deepEqual(graph.edges.map(e => e.relationship_type).sort(), ['conflicts', 'related']);
+  assert.deepEqual(store.getConflicts('jwt-rotation', 'proj_a'), [
+    { id: 'session-cookies', kind: 'concept', origin: 'project', reason: 'opposite advice' }
+  ]);
+});
+
+test('memory conflicts are reported from the concept and from the memory', () => {
+  const store = ConceptStore.getInstance('conflicts');
+  const { id } = store.save({ title: 'No ORMs', body: 'Never use an ORM for reporting queries' });
+  store.recordMemoryConflict(id, 'conflicts', 'mem_orm', 'the memory recommends an ORM');
+
+  assert.deepEqual(store.getConflicts(id, 'conflicts'), [
+    { id: 'mem_orm', kind: 'memory', reason: 'the memory recommends an ORM' }
+  ]);
+  assert.deepEqual(store.getConflicts(id, 'other-project'), []);
+  assert.deepEqual(ConceptStore.conflictsForMemories('conflicts', ['mem_orm']).get('mem_orm'), [
+    { id, kind: 'concept', origin: 'project', reason: 'the memory recommends an ORM' }
+  ]);
+});
+
+test('reopening a migrated store changes nothing', () => {
+  const file = projectStorePath('legacy-project');
+  const version = userVersion(file);
+  ConceptStore.release('legacy-project');
+
+  const reopened = ConceptStore.getInstance('legacy-project');
+  try {
+    assert.equal(userVersion(file), version);
+    assert.equal(reopened.get('jwt-rotation')?.usage_count, 7);
+    assert.equal(reopened.getRelationships('jwt-rotation').length, 1);
+  } finally {
+    ConceptStore.release('legacy-project');
+  }
+});
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConflictItem, conflictSearchTerms, extractDirectives, findConflicts } from '../memory-server/conflict-detector.js';
+
+function memory(id: string, text: string, tags: string[] = []): ConflictItem {
+  return { id, kind: 'memory', text, tags };
+}
+
+test('directives are split by polarity with their subject words', () => {
+  assert.deepEqual(extractDirectives('Never use Redis for sessions. We should cache tokens in memory.'), [
+    { polarity: 'negative', subject: ['redi', 'session'], phrase: 'Never use Redis for sessions' },
+    { polarity: 'positive', subject: ['cache', 'token', 'memory'], phrase: 'should cache tokens in memory' }
+  ]);
+  assert.equal(extractDirectives('You must not log secrets')[0]?.polarity, 'negative');
+  assert.deepEqual(extractDirectives('Redis stores sessions'), []);
+});
+
+test('opposite directives on the same subject conflict', () => {
+  const saved = memory('mem_new', 'Always use Redis for sessions');
+  const conflicts = findConflicts(saved, [
+    memory('mem_old', 'Do not use Redis for sessions, they are lost on restart'),
+    memory('mem_other', 'Never deploy on Fridays'),
+    memory('mem_same', 'Always use Redis for sessions'),
+    { ...saved }
+  ]);
+
+  assert.deepEqual(conflicts, [{
+    id: 'mem_old',
+    kind: 'memory',
+    reason: '"Always use Redis for sessions" contradicts "Do not use Redis for sessions, they are lost on restart"'
+  }]);
+});
+
+test('key/value tags with different values conflict', () => {
+  const conflicts = findConflicts(
+    memory('mem_new', 'Reporting database', ['db:postgres', 'reporting']),
+    [memory('mem_old', 'Main database', ['db=mysql']), memory('mem_same', 'Read replica', ['db:postgres'])]
+  );
+  assert.deepEqual(conflicts, [{ id: 'mem_old', kind: 'memory', reason: 'tag db=postgres contradicts db=mysql' }]);
+});
+
+test('search terms come from directive subjects and tag keys', () => {
+  assert.deepEqual(conflictSearchTerms({ text: 'Never use Redis for sessions', tags: ['db:postgres', 'plain'] }), [
+    'redi', 'session', 'db'
+  ]);
+});
+
+test('package scope tags never conflict', () => {
+  assert.deepEqual(findConflicts(
+    memory('mem_api', 'API build', ['package:@acme/api']),
+    [memory('mem_web', 'Web build', ['package:web'])]
+  ), []);
+});
\ No newline at end of file
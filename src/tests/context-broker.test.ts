@@ -0,0 +1,239 @@
+import { tempDir } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { ContextBroker } from '../memory-server/context-broker.js';
+import { ConceptStore } from '../memory-server/concept-store.js';
+import { MemoryDatabase } from '../memory-server/database.js';
+
+let nextProject = 0;
+
+/**
+ * A broker and a second connection to its memory store for seeding
+ */
+function openBroker(): [ContextBroker, MemoryDatabase, () => void, string] {
+  const root = tempDir('broker');
+  const projectId = `broker-${++nextProject}`;
+  const db = new MemoryDatabase(root, projectId);
+  const broker = new ContextBroker(root, projectId);
+  return [broker, db, () => { broker.close(); db.close(); }, root];
+}
+
+test('a multi-word task keeps memories that only match semantically', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    db.save({ summary: 'Authentication uses JWT', text: 'Authentication uses JWT tokens signed with RS256' });
+    db.save({ summary: 'CSS grid layout', text: 'Pages use a twelve column grid' });
+
+    for (const task of ['login flow', 'auth login flow']) {
+      const preview = await broker.preview({ task, mode: 'hard' });
+      assert.deepEqual(preview.injections.map(i => i.summary), ['Authentication uses JWT'], task);
+    }
+  } finally {
+    close();
+  }
+});
+
+test('preview ranks within top_k and inject renders the same items', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    db.save({ summary: 'Release notes', text: 'the release pipeline drafts notes from merged pull requests' });
+    db.save({ summary: 'Release signing', text: 'artifacts are signed with the pipeline key before upload' });
+    db.save({ summary: 'Release freeze', text: 'no release goes out during the December freeze' });
+
+    const preview = await broker.preview({ task: 'release pipeline', top_k: 2, mode: 'hard' });
+    assert.equal(preview.injections.length, 2);
+    assert.equal(preview.topK, 2);
+    assert.equal(preview.stats.totalCandidates, 3);
+    assert.ok(preview.injections[0].score >= preview.injections[1].score);
+
+    const injected = await broker.inject({ task: 'release pipeline', top_k: 2, mode: 'hard' });
+    assert.deepEqual(injected.injected.map(i => i.id), preview.injections.map(i => i.id));
+    assert.match(injected.markdown, /^# Relevant context \(2 items\)\n\n---\n\n## Release /);
+    assert.equal(injected.byteSize, Buffer.byteLength(injected.markdown));
+  } finally {
+    close();
+  }
+});
+
+test('inject keeps the rendered block within the byte budget', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    for (let i = 0; i < 5; i++) {
+      db.save({ summary: `Migration rule ${i}`, text: `database migration rule number ${i} `.repeat(4) });
+    }
+
+    const injected = await broker.inject({ task: 'database migration', budget_bytes: 400, mode: 'hard' });
+    assert.ok(injected.byteSize <= 400, `${injected.byteSize} bytes`);
+    assert.ok(injected.injected.length > 0);
+    assert.deepEqual(await broker.inject({ task: 'nothing matches zzzz', mode: 'hard' }).then(r => r.markdown), '');
+  } finally {
+    close();
+  }
+});
+
+test('token budgets are measured with the tokenizer', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    db.save({ summary: 'Cache headers', text: 'static assets are served with immutable cache headers' });
+    db.save({ summary: 'Cache busting', text: 'asset file names carry a content hash for cache busting' });
+    // One token per word makes the budget easy to reason about
+    broker.setTokenizer({ id: 'words', count: text => text.split(/\s+/).filter(Boolean).length });
+
+    const preview = await broker.preview({ task: 'cache assets', budget_tokens: 14, budget_bytes: 10, mode: 'hard' });
+    assert.equal(preview.budgetUnit, 'tokens');
+    assert.equal(preview.budgetLimit, 14);
+    assert.equal(preview.injections.length, 1);
+    assert.ok(preview.budgetUsed <= 14);
+    assert.equal(preview.injections[0].tokenCount, preview.budgetUsed);
+
+    const injected = await broker.inject({ task: 'cache assets', budget_tokens: 16, mode: 'hard' });
+    assert.ok(injected.tokenCount <= 16, `${injected.tokenCount} tokens`);
+  } finally {
+    close();
+  }
+});
+
+test('an item too large for the remaining budget is truncated instead of dropped', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    const long = Array.from({ length: 40 }, (_, i) => `Step ${i}: rotate the signing key and redeploy`).join('. ');
+    db.save({ summary: 'Key rotation runbook', text: long });
+
+    const preview = await broker.preview({ task: 'key rotation runbook', budget_bytes: 300, mode: 'hard' });
+    assert.equal(preview.injections.length, 1);
+    const [item] = preview.injections;
+    assert.equal(item.truncated, true);
+    assert.equal(preview.stats.truncated, 1);
+    assert.match(item.content, /^## Key rotation runbook\n\nStep 0: .*\.\.\.$/s);
+    assert.ok(preview.budgetUsed <= 300);
+
+    // Not even the heading and a minimal snippet fit
+    assert.deepEqual((await broker.preview({ task: 'key rotation runbook', budget_bytes: 30, mode: 'hard' })).injections, []);
+  } finally {
+    close();
+  }
+});
+
+test('near-duplicate candidates are reported instead of selected', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    const first = db.save({ summary: 'Use UTC timestamps', text: 'store every timestamp in UTC and convert at the edge' });
+    const copy = db.save({ summary: 'Use UTC timestamps!', text: 'store all timestamps in UTC, convert only for display' });
+    const other = db.save({ summary: 'Timestamp columns', text: 'timestamp columns are named *_at and hold epoch milliseconds' });
+
+    const preview = await broker.preview({ task: 'timestamp storage', mode: 'hard' });
+    const selected = preview.injections.map(i => i.id);
+    assert.equal(selected.length, 2);
+    assert.ok(selected.includes(other.id));
+
+    assert.equal(preview.stats.droppedRedundant.length, 1);
+    const [dropped] = preview.stats.droppedRedundant;
+    assert.deepEqual([dropped.id, dropped.similarTo].sort(), [first.id, copy.id].sort());
+    assert.equal(dropped.similarity, 1);
+  } finally {
+    close();
+  }
+});
+
+test('diverse candidates win over a cluster on one topic', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    for (const variant of ['pool size is 10', 'pool size is 10 per worker', 'pool size is 10 per worker process']) {
+      db.save({ summary: `Postgres connection ${variant}`, text: `postgres connection ${variant}`, importance: 5 });
+    }
+    const other = db.save({ summary: 'Postgres statement timeout', text: 'postgres statements time out after 5s', importance: 3 });
+
+    const preview = await broker.preview({ task: 'postgres connection', top_k: 2, mode: 'hard' });
+    assert.equal(preview.injections.length, 2);
+    assert.ok(preview.injections.some(i => i.id === other.id));
+    assert.ok(preview.stats.droppedRedundant.length > 0);
+  } finally {
+    close();
+  }
+});
+
+test('score breakdowns add up to the score', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    db.save({ summary: 'Retry budget', text: 'retries share a budget per request', tags: ['retries'], paths: ['/src/http/client.ts'] });
+
+    const preview = await broker.preview({ task: 'retries budget', open_files: ['/src/http/client.ts'], explain: true, mode: 'hard' });
+    const [item] = preview.injections;
+    const total = Object.values(item.scoreBreakdown).reduce((sum, value) => sum + value, 0);
+    assert.ok(Math.abs(total - item.score) < 1e-9);
+    assert.ok(item.scoreBreakdown.path_match > 0);
+    assert.ok(item.scoreBreakdown.tag_match > 0);
+  } finally {
+    close();
+  }
+});
+
+test('a superseded memory is penalised once, by the superseded weight', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    const old = db.save({ summary: 'Deploy by hand', text: 'deploy production by running deploy.sh from a laptop' });
+    const task = 'deploy production';
+    const before = (await broker.preview({ task, explain: true, mode: 'hard' })).injections.find(i => i.id === old.id)!;
+
+    const current = db.save({ summary: 'Tagged releases', text: 'CI ships every tagged release to production' });
+    db.link(current.id, old.id, 'supersedes');
+    const after = (await broker.preview({ task, explain: true, mode: 'hard' })).injections.find(i => i.id === old.id)!;
+
+    assert.ok(before.scoreBreakdown.superseded === 0);
+    assert.equal(after.scoreBreakdown.superseded, -2);
+    // The search's own cut for superseded memories is not applied on top
+    assert.ok(after.scoreBreakdown.search_relevance >= before.scoreBreakdown.search_relevance - 0.2);
+    assert.ok(after.scoreBreakdown.search_relevance > 0.5);
+  } finally {
+    close();
+  }
+});
+
+test('presets come from the project config and can be switched', async () => {
+  const [broker, db, close, root] = openBroker();
+  try {
+    const old = db.save({ summary: 'Kue for background jobs', text: 'background jobs run on kue backed by redis' });
+    const current = db.save({ summary: 'BullMQ queue', text: 'the job queue moved to bullmq with retries and rate limits' });
+    db.link(current.id, old.id, 'supersedes');
+
+    assert.equal((await broker.preview({ task: 'jobs queue', mode: 'hard' })).profile, 'default');
+
+    broker.usePreset('architecture');
+    const preview = await broker.preview({ task: 'jobs queue', explain: true, mode: 'hard' });
+    assert.equal(preview.profile, 'architecture');
+    assert.equal(preview.injections.find(i => i.id === old.id)?.scoreBreakdown.superseded, -4);
+    assert.throws(() => broker.usePreset('nope'), /Unknown ranking preset 'nope'/);
+
+    fs.outputFileSync(path.join(root, '.kratos', 'config.yaml'), 'ranking:\n  preset: debugging\n');
+    const configured = new ContextBroker(root, 'broker-config');
+    try {
+      assert.equal((await configured.preview({ task: 'jobs queue', mode: 'hard' })).profile, 'debugging');
+    } finally {
+      configured.close();
+    }
+  } finally {
+    close();
+  }
+});
+
+test('concepts matching the task are offered next to memories', async () => {
+  const [broker, db, close] = openBroker();
+  try {
+    db.save({ summary: 'Webhook retries', text: 'webhooks are retried for a day' });
+    ConceptStore.getInstance(`broker-${nextProject}`).save({
+      id: 'webhook-signatures',
+      title: 'Verify webhook signatures',
+      body: 'Check the HMAC signature of every incoming webhook before parsing it',
+      tags: ['webhooks', 'security']
+    });
+
+    const preview = await broker.preview({ task: 'incoming webhooks', mode: 'soft' });
+    assert.ok(preview.injections.some(i => i.type === 'concept' && i.id === 'webhook-signatures'));
+    assert.ok(preview.injections.some(i => i.type === 'memory'));
+    assert.ok(preview.stats.conceptMatches >= 1);
+  } finally {
+    close();
+  }
+});
\ No newline at end of file
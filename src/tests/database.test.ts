@@ -0,0 +1,506 @@
+import './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { Memory, MemoryDatabase, usageSignals } from '../memory-server/database.js';
+
+let nextProject = 0;
+
+/**
+ * Two connections to the same store, standing in for two agents
+ */
+function openPair(): [MemoryDatabase, MemoryDatabase, () => void] {
+  const projectId = `cas-${++nextProject}`;
+  const mine = new MemoryDatabase('/tmp/cas', projectId);
+  const theirs = new MemoryDatabase('/tmp/cas', projectId);
+  return [mine, theirs, () => { mine.close(); theirs.close(); }];
+}
+
+/**
+ * Let the other connection write right after each of the next `times` reads,
+ * i.e. between update()'s read of the row and its write
+ */
+function raceReads(db: MemoryDatabase, times: number, write: (id: string) => void) {
+  const get = db.get.bind(db);
+  let remaining = times;
+  db.get = (id: string): Memory | null => {
+    const memory = get(id);
+    if (memory && remaining > 0) {
+      remaining--;
+      write(id);
+    }
+    return memory;
+  };
+}
+
+test('update patches only the given fields', () => {
+  const [db, , close] = openPair();
+  try {
+    const memory = db.save({ summary: 'Token lifetime', text: 'Tokens live 15 minutes', tags: ['auth'], importance: 4 });
+    const result = db.update(memory.id, { text: 'Tokens live 30 minutes' });
+
+    assert.ok(result.ok);
+    assert.equal(result.memory.text, 'Tokens live 30 minutes');
+    assert.equal(result.memory.summary, 'Token lifetime');
+    assert.deepEqual(result.memory.tags, ['auth']);
+    assert.equal(result.memory.importance, 4);
+    assert.ok(result.memory.updated_at > memory.updated_at);
+    assert.equal(db.update('mem_missing', { text: 'x' }).ok, false);
+  } finally {
+    close();
+  }
+});
+
+test('update refuses a stale expected_updated_at', () => {
+  const [db, , close] = openPair();
+  try {
+    const memory = db.save({ summary: 'Token lifetime', text: 'Tokens live 15 minutes' });
+    const first = db.update(memory.id, { text: 'Tokens live 30 minutes' }, { expected_updated_at: memory.updated_at });
+    assert.equal(first.ok, true);
+
+    const stale = db.update(memory.id, { text: 'Tokens live 5 minutes' }, { expected_updated_at: memory.updated_at });
+    assert.equal(stale.ok, false);
+    assert.equal(!stale.ok && stale.reason, 'conflict');
+    assert.equal(!stale.ok && stale.current?.text, 'Tokens live 30 minutes');
+    assert.equal(db.get(memory.id)?.text, 'Tokens live 30 minutes');
+  } finally {
+    close();
+  }
+});
+
+test('update detects a write landing between its read and its write', () => {
+  const [db, other, close] = openPair();
+  try {
+    const memory = db.save({ summary: 'Cache policy', text: 'Cache for an hour' });
+    raceReads(db, 1, id => other.update(id, { text: 'Cache for a day' }));
+
+    const result = db.update(memory.id, { text: 'Never cache' });
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.reason, 'conflict');
+    assert.equal(db.get(memory.id)?.text, 'Cache for a day');
+  } finally {
+    close();
+  }
+});
+
+test('saving a duplicate updates the existing memory', () => {
+  const [db, , close] = openPair();
+  try {
+    const first = db.save({ summary: 'Use pnpm', text: 'pnpm only', paths: ['package.json'] });
+    const second = db.save({ summary: 'Use pnpm', text: 'pnpm 9 only', paths: ['package.json'] });
+
+    assert.equal(second.id, first.id);
+    assert.equal(second.text, 'pnpm 9 only');
+    assert.equal(db.getRecent({ k: 10 }).length, 1);
+  } finally {
+    close();
+  }
+});
+
+test('saving a duplicate retries when the existing memory changes underneath', () => {
+  const [db, other, close] = openPair();
+  try {
+    const first = db.save({ summary: 'Lint before push', text: 'run eslint' });
+    raceReads(db, 1, id => other.update(id, { importance: 5 }));
+
+    const second = db.save({ summary: 'Lint before push', text: 'run eslint and tsc' });
+    assert.equal(second.id, first.id);
+    assert.equal(second.text, 'run eslint and tsc');
+    assert.equal(second.importance, 5);
+    assert.equal(db.getRecent({ k: 10 }).length, 1);
+  } finally {
+    close();
+  }
+});
+
+test('saving a duplicate gives up instead of inserting a second copy', () => {
+  const [db, other, close] = openPair();
+  try {
+    db.save({ summary: 'Squash merges', text: 'squash feature branches' });
+    raceReads(db, Infinity, id => other.update(id, { text: `edited at ${Date.now()}` }));
+
+    assert.throws(
+      () => db.save({ summary: 'Squash merges', text: 'rebase instead' }),
+      /kept changing while saving a duplicate/
+    );
+    assert.equal(other.getRecent({ k: 10 }).length, 1);
+  } finally {
+    close();
+  }
+});
+
+test('a conflicting update leaves no revision behind', () => {
+  const [db, other, close] = openPair();
+  try {
+    const memory = db.save({ summary: 'Cache policy', text: 'Cache for an hour' });
+    raceReads(db, 1, id => other.update(id, { text: 'Cache for a day' }));
+
+    assert.equal(db.update(memory.id, { text: 'Never cache' }).ok, false);
+    assert.equal(db.getHistory(memory.id)?.length, 2);
+  } finally {
+    close();
+  }
+});
+
+test('every update keeps the replaced version with a diff', () => {
+  const [db, , close] = openPair();
+  try {
+    const memory = db.save({ summary: 'Retry policy', text: 'Retry three times\nwith backoff' });
+    db.update(memory.id, { text: 'Retry five times\nwith backoff' });
+    db.update(memory.id, { summary: 'HTTP retry policy' });
+
+    const history = db.getHistory(memory.id)!;
+    assert.deepEqual(history.map(v => [v.revision, v.current]), [[1, false], [2, false], [3, true]]);
+    assert.deepEqual(history.map(v => v.changed_fields), [[], ['text'], ['summary']]);
+    assert.match(history[1].diff!, /- Retry three times\n\+ Retry five times/);
+    assert.deepEqual(history[2].summary_diff, { from: 'Retry policy', to: 'HTTP retry policy' });
+    assert.equal(history[0].replaced_at, history[1].valid_from);
+    assert.equal(db.getHistory('mem_missing'), null);
+  } finally {
+    close();
+  }
+});
+
+test('revert restores a revision and refuses a stale expected_updated_at', () => {
+  const [db, , close] = openPair();
+  try {
+    const memory = db.save({ summary: 'Retry policy', text: 'Retry three times', tags: ['http'] });
+    const edited = db.update(memory.id, { text: 'Retry five times', tags: ['http', 'backoff'] });
+    assert.ok(edited.ok);
+
+    const stale = db.revert(memory.id, 1, { expected_updated_at: memory.updated_at });
+    assert.equal(!stale.ok && stale.reason, 'conflict');
+
+    const reverted = db.revert(memory.id, 1, { expected_updated_at: edited.memory.updated_at });
+    assert.ok(reverted.ok);
+    assert.equal(reverted.memory.text, 'Retry three times');
+    assert.deepEqual(reverted.memory.tags, ['http']);
+
+    const history = db.getHistory(memory.id)!;
+    assert.deepEqual(history.map(v => v.text), ['Retry three times', 'Retry five times', 'Retry three times']);
+    assert.equal(db.revert(memory.id, 9).ok, false);
+  } finally {
+    close();
+  }
+});
+
+test('revert restores the TTL of the revision', () => {
+  const [db, , close] = openPair();
+  try {
+    const memory = db.save({ summary: 'Feature freeze', text: 'no merges to main' });
+    const expiring = db.update(memory.id, { text: 'no merges this week', ttl: 60 });
+    assert.ok(expiring.ok && expiring.memory.expires_at);
+
+    const reverted = db.revert(memory.id, 1);
+    assert.ok(reverted.ok);
+    assert.equal(reverted.memory.ttl ?? null, null);
+    assert.equal(reverted.memory.expires_at ?? null, null);
+
+    const restored = db.revert(memory.id, 2);
+    assert.ok(restored.ok);
+    assert.equal(restored.memory.ttl, 60);
+    assert.ok(restored.memory.expires_at! > Date.now());
+  } finally {
+    close();
+  }
+});
+
+test('typed links are validated and visible from both ends', () => {
+  const db = new MemoryDatabase('/tmp/links', 'links');
+  try {
+    const bug = db.save({ summary: 'Login loop on Safari', text: 'cookies dropped' });
+    const fix = db.save({ summary: 'Set SameSite=None on the session cookie', text: 'fixes the loop' });
+
+    assert.equal(db.link(fix.id, bug.id, 'fixes', 'verified on Safari 17').ok, true);
+    assert.equal(db.link(fix.id, fix.id, 'relates_to').ok, false);
+    assert.equal(db.link(fix.id, 'mem_missing', 'relates_to').ok, false);
+    assert.equal(db.link(fix.id, bug.id, 'blocks' as any).ok, false);
+
+    assert.deepEqual(db.getNeighbours(bug.id), [
+      { id: fix.id, type: 'fixes', direction: 'in', summary: fix.summary }
+    ]);
+    const graph = db.traverse(bug.id)!;
+    assert.deepEqual(graph.nodes.map(n => [n.id, n.depth]), [[bug.id, 0], [fix.id, 1]]);
+    assert.equal(graph.edges[0].note, 'verified on Safari 17');
+
+    assert.deepEqual(db.unlink(fix.id, bug.id), { ok: true, removed: 1 });
+    assert.deepEqual(db.getNeighbours(bug.id), []);
+  } finally {
+    db.close();
+  }
+});
+
+test('superseded memories rank below their replacement', () => {
+  const db = new MemoryDatabase('/tmp/supersede', 'supersede');
+  try {
+    const old = db.save({ summary: 'Deploy with the deploy script', text: 'run deploy.sh to deploy production' });
+    const current = db.save({ summary: 'Deploy from CI', text: 'deploy production by tagging a release' });
+    db.link(current.id, old.id, 'supersedes');
+
+    const results = db.search({ q: 'deploy production' });
+    assert.deepEqual(results.map(r => r.memory.id), [current.id, old.id]);
+    assert.deepEqual(results[1].superseded_by, [current.id]);
+  } finally {
+    db.close();
+  }
+});
+
+test('semantic search finds memories that share no keywords with the query', () => {
+  const db = new MemoryDatabase('/tmp/semantic', 'semantic');
+  try {
+    const auth = db.save({ summary: 'Authentication uses JWT', text: 'Authentication uses JWT tokens signed with RS256' });
+    db.save({ summary: 'CSS grid layout', text: 'Pages use a twelve column grid' });
+
+    const results = db.search({ q: 'login' });
+    assert.deepEqual(results.map(r => r.memory.id), [auth.id]);
+    assert.equal(results[0].bm25, 0);
+    assert.ok(results[0].similarity! > 0);
+    assert.ok(results[0].score > 0 && results[0].score <= 1);
+
+    assert.deepEqual(db.search({ q: 'login', semantic: false }), []);
+    assert.equal(db.searchWithDebug({ q: 'login' }).debug_info.semantic?.semantic_only_hits, 1);
+
+    db.setEmbedder(null);
+    assert.deepEqual(db.search({ q: 'login' }), []);
+  } finally {
+    db.close();
+  }
+});
+
+test('keyword and semantic scores are fused on a 0..1 scale', () => {
+  const db = new MemoryDatabase('/tmp/hybrid', 'hybrid');
+  try {
+    db.save({ summary: 'Session cookies', text: 'session cookies are httpOnly' });
+    db.save({ summary: 'Session timeout', text: 'sessions expire after an hour of inactivity' });
+
+    const results = db.search({ q: 'session' });
+    assert.equal(results.length, 2);
+    for (const result of results) {
+      assert.ok(result.bm25! >= 0 && result.bm25! <= 1);
+      assert.ok(result.similarity! >= 0 && result.similarity! <= 1);
+      assert.ok(Math.abs(0.6 * result.bm25! + 0.4 * result.similarity! - result.score) < 1e-9);
+    }
+  } finally {
+    db.close();
+  }
+});
+
+function memoryStorePath(projectId: string): string {
+  return path.join(os.homedir(), '.kratos', 'projects', projectId, 'databases', 'memories.db');
+}
+
+test('search and recent listings honour a creation window', () => {
+  const db = new MemoryDatabase('/tmp/window', 'window');
+  try {
+    const old = db.save({ summary: 'Old logging decision', text: 'log to files' });
+    const recent = db.save({ summary: 'New logging decision', text: 'log to stdout' });
+    const raw = new Database(memoryStorePath('window'));
+    raw.prepare('UPDATE memories SET created_at = ? WHERE id = ?').run(Date.now() - 10 * 24 * 60 * 60 * 1000, old.id);
+    raw.close();
+
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    assert.deepEqual(db.search({ q: 'logging', created_after: weekAgo }).map(r => r.memory.id), [recent.id]);
+    assert.deepEqual(db.search({ q: 'logging', created_before: weekAgo }).map(r => r.memory.id), [old.id]);
+    assert.deepEqual(db.getRecent({ created_after: weekAgo }).map(m => m.id), [recent.id]);
+    assert.deepEqual(db.getRecent({ created_before: weekAgo }).map(m => m.id), [old.id]);
+  } finally {
+    db.close();
+  }
+});
+
+test('the score breakdown adds up to the fused score', () => {
+  const db = new MemoryDatabase('/tmp/breakdown', 'breakdown');
+  try {
+    db.save({ summary: 'Session cookies', text: 'session cookies are httpOnly' });
+    db.save({ summary: 'Session timeout', text: 'sessions expire after an hour of inactivity' });
+
+    const results = db.search({ q: 'session' });
+    assert.equal(results.length, 2);
+    for (const result of results) {
+      const breakdown = result.score_breakdown!;
+      assert.ok(result.score <= 1);
+      assert.ok(Math.abs(breakdown.keyword + breakdown.semantic - result.score) < 1e-9);
+    }
+  } finally {
+    db.close();
+  }
+});
+
+test('usage and feedback are counted and turned into bounded signals', () => {
+  const db = new MemoryDatabase('/tmp/usage', 'usage');
+  try {
+    const memory = db.save({ summary: 'Prefer composition', text: 'avoid deep inheritance' });
+    db.recordUsage([memory.id, memory.id], 'retrieved');
+    db.recordUsage([memory.id], 'injected');
+    assert.equal(db.recordFeedback(memory.id, true).ok, true);
+    assert.equal(db.recordFeedback('mem_missing', true).ok, false);
+
+    const usage = db.getUsage([memory.id]).get(memory.id)!;
+    assert.deepEqual(
+      [usage.retrieved_count, usage.injected_count, usage.helpful_count, usage.unhelpful_count],
+      [2, 1, 1, 0]
+    );
+    const stats = db.getUsageStats();
+    assert.deepEqual([stats.tracked_memories, stats.retrievals, stats.injections, stats.helpful], [1, 2, 1, 1]);
+    assert.deepEqual(stats.most_used, [{ id: memory.id, summary: memory.summary, uses: 3 }]);
+
+    assert.deepEqual(usageSignals(undefined), { usage: 0, feedback: 0 });
+    const signals = usageSignals({ retrieved_count: 1000, injected_count: 0, helpful_count: 0, unhelpful_count: 3 });
+    assert.equal(signals.usage, 1);
+    assert.equal(signals.feedback, -0.75);
+  } finally {
+    db.close();
+  }
+});
+
+test('helpful memories rank above equally relevant ones', () => {
+  const db = new MemoryDatabase('/tmp/feedback', 'feedback');
+  try {
+    const a = db.save({ summary: 'Queue retries', text: 'queue jobs retry three times' });
+    const b = db.save({ summary: 'Queue ordering', text: 'queue jobs run in order' });
+    const before = db.search({ q: 'queue jobs' }).map(r => r.memory.id);
+
+    const favourite = before[1];
+    db.recordFeedback(favourite, true);
+    db.recordFeedback(before[0], false);
+
+    const after = db.search({ q: 'queue jobs' });
+    assert.deepEqual(after.map(r => r.memory.id), [favourite, before[0]]);
+    assert.ok(after[0].score_breakdown!.feedback > 0);
+    assert.ok([a.id, b.id].includes(favourite));
+  } finally {
+    db.close();
+  }
+});
+
+test('mergeFrom copies new memories with their links and history, skipping duplicates', () => {
+  const source = new MemoryDatabase('/tmp/merge-source', 'merge-source');
+  const shared = source.save({ summary: 'Deploy on Fridays', text: 'never', paths: ['deploy.sh'] });
+  const incident = source.save({ summary: 'Friday outage', text: 'the deploy broke checkout' });
+  source.link(incident.id, shared.id, 'caused_by');
+  source.update(incident.id, { text: 'the deploy broke checkout for an hour' });
+  source.close();
+
+  const target = new MemoryDatabase('/tmp/merge-target', 'merge-target');
+  try {
+    const existing = target.save({ summary: 'Deploy on Fridays', text: 'only with approval', paths: ['deploy.sh'] });
+
+    const report = target.mergeFrom(memoryStorePath('merge-source'));
+    assert.deepEqual(report, { merged: 1, duplicates: 1, links: 1, revisions: 1 });
+
+    const copied = target.get(incident.id)!;
+    assert.equal(copied.project_id, 'merge-target');
+    assert.equal(target.get(existing.id)?.text, 'only with approval');
+    // The link now points at the memory this project already had
+    assert.deepEqual(target.getNeighbours(incident.id).map(n => n.id), [existing.id]);
+    assert.equal(target.getHistory(incident.id)?.length, 2);
+    assert.equal(target.search({ q: 'outage' })[0]?.memory.id, incident.id);
+
+    // Merging again finds nothing new
+    assert.equal(target.mergeFrom(memoryStorePath('merge-source')).merged, 0);
+  } finally {
+    target.close();
+  }
+});
+
+test('mergeFrom accepts stores written before the newer tables', () => {
+  const file = memoryStorePath('merge-legacy');
+  fs.ensureDirSync(path.dirname(file));
+  const legacy = new Database(file);
+  legacy.exec(`
+    CREATE TABLE memories (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      text TEXT NOT NULL,
+      tags TEXT DEFAULT '[]',
+      paths TEXT DEFAULT '[]',
+      importance INTEGER DEFAULT 3,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      ttl INTEGER,
+      expires_at INTEGER,
+      dedupe_hash TEXT
+    );
+  `);
+  legacy.prepare(`
+    INSERT INTO memories (id, project_id, summary, text, created_at, updated_at)
+    VALUES ('mem_legacy', 'merge-legacy', 'Old convention', 'tabs, not spaces', 1, 1)
+  `).run();
+  legacy.close();
+
+  const target = new MemoryDatabase('/tmp/merge-target-2', 'merge-target-2');
+  try {
+    assert.equal(target.mergeFrom(file).merged, 1);
+    assert.equal(target.get('mem_legacy')?.text, 'tabs, not spaces');
+  } finally {
+    target.close();
+  }
+});
+
+test('saving a duplicate carries the new git context', () => {
+  const db = new MemoryDatabase('/tmp/git-context', 'git-context');
+  try {
+    const first = db.save({ summary: 'Use pnpm', text: 'pnpm only', branch: 'main', commit_sha: 'aaa' });
+    const second = db.save({ summary: 'Use pnpm', text: 'pnpm 9 only', branch: 'feature', commit_sha: 'bbb' });
+
+    assert.equal(second.id, first.id);
+    assert.equal(second.branch, 'feature');
+    assert.equal(second.commit_sha, 'bbb');
+
+    // A save outside git keeps what was recorded
+    const third = db.save({ summary: 'Use pnpm', text: 'pnpm 10 only' });
+    assert.equal(third.branch, 'feature');
+  } finally {
+    db.close();
+  }
+});
+
+test('branch filters, summaries and promotion', () => {
+  const db = new MemoryDatabase('/tmp/branches', 'branches');
+  try {
+    db.save({ summary: 'Cache keys include the tenant', text: 'tenant scoped cache', branch: 'main', commit_sha: 'a1' });
+    const wip = db.save({ summary: 'Cache warmup on boot', text: 'warm the cache on boot', branch: 'feature/warmup', commit_sha: 'b1' });
+    db.save({ summary: 'Cache TTL is five minutes', text: 'cache ttl' });
+
+    assert.deepEqual(db.search({ q: 'cache', branch: 'feature/warmup' }).map(r => r.memory.id), [wip.id]);
+    assert.equal(db.search({ q: 'cache', boost_branch: 'feature/warmup' })[0]?.memory.id, wip.id);
+    assert.deepEqual(db.getBranches({ exclude: 'main' }).map(b => [b.branch, b.count, b.last_commit]), [
+      ['feature/warmup', 1, 'b1']
+    ]);
+
+    assert.deepEqual(db.promoteBranch('feature/warmup', 'main'), { promoted: [wip.id] });
+    assert.equal(db.get(wip.id)?.branch, 'main');
+    assert.equal(db.get(wip.id)?.commit_sha, 'b1');
+    assert.deepEqual(db.getBranches({ exclude: 'main' }), []);
+  } finally {
+    db.close();
+  }
+});
+
+test('mergeFrom leaves newer columns empty for stores that lack them', () => {
+  const file = memoryStorePath('merge-legacy-columns');
+  fs.ensureDirSync(path.dirname(file));
+  const legacy = new Database(file);
+  legacy.exec(`
+    CREATE TABLE memories (
+      id TEXT PRIMARY KEY, project_id TEXT NOT NULL, summary TEXT NOT NULL, text TEXT NOT NULL,
+      tags TEXT DEFAULT '[]', paths TEXT DEFAULT '[]', importance INTEGER DEFAULT 3,
+      created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL, ttl INTEGER, expires_at INTEGER, dedupe_hash TEXT
+    );
+    INSERT INTO memories (id, project_id, summary, text, created_at, updated_at)
+    VALUES ('mem_columns', 'merge-legacy-columns', 'Old rule', 'no branch recorded', 1, 1);
+  `);
+  legacy.close();
+
+  const target = new MemoryDatabase('/tmp/merge-target-3', 'merge-target-3');
+  try {
+    assert.equal(target.mergeFrom(file).merged, 1);
+    assert.equal(target.get('mem_columns')?.branch, undefined);
+  } finally {
+    target.close();
+  }
+});
\ No newline at end of file
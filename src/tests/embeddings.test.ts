@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bufferToVector, cosineSimilarity, HashedNgramEmbedder, tokenize, vectorToBuffer } from '../memory-server/embeddings.js';
+
+const embedder = new HashedNgramEmbedder();
+
+test('vectors are deterministic and unit length', () => {
+  const a = embedder.embed('Refresh tokens rotate on every use');
+  const b = embedder.embed('Refresh tokens rotate on every use');
+
+  assert.equal(a.length, 384);
+  assert.deepEqual(a, b);
+  assert.ok(Math.abs(cosineSimilarity(a, a) - 1) < 1e-6);
+  assert.equal(embedder.id, 'hashed-ngram-v1-384');
+});
+
+test('developer synonyms land closer than unrelated text', () => {
+  const login = embedder.embed('login');
+  const auth = embedder.embed('Authentication uses JWT');
+  const layout = embedder.embed('Pages use a twelve column grid');
+
+  assert.ok(cosineSimilarity(login, auth) > 0.25);
+  assert.ok(cosineSimilarity(login, auth) > cosineSimilarity(login, layout));
+});
+
+test('vectors survive a round trip through a buffer', () => {
+  const vector = embedder.embed('cache invalidation');
+  const copy = bufferToVector(Buffer.concat([Buffer.alloc(3), vectorToBuffer(vector)]).subarray(3));
+
+  assert.deepEqual(copy, vector);
+});
+
+test('edge cases', () => {
+  assert.deepEqual(tokenize('Use pnpm, not npm: v9.x'), ['use', 'pnpm', 'not', 'npm', 'v9']);
+  assert.equal(cosineSimilarity(embedder.embed(''), embedder.embed('anything')), 0);
+  assert.equal(cosineSimilarity(new Float32Array(2), new Float32Array(3)), 0);
+});
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * Shared setup for the test files. Import it first: stores and the project
+ * registry live under $HOME/.kratos, so every test process gets a fresh home.
+ */
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+const created: string[] = [];
+
+export function tempDir(prefix: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `kratos-test-${prefix}-`));
+  created.push(dir);
+  return dir;
+}
+
+process.env.HOME = tempDir('home');
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+process.on('exit', () => {
+  for (const dir of created) fs.removeSync(dir);
+});
+
+/**
+ * A git repository on branch main with the given files committed
+ */
+export function gitRepo(files: Record<string, string> = { 'README.md': 'test\n' }): string {
+  const dir = tempDir('repo');
+  for (const [file, content] of Object.entries(files)) {
+    fs.outputFileSync(path.join(dir, file), content);
+  }
+  git(dir, 'init', '-q', '-b', 'main');
+  commitAll(dir, 'initial');
+  return dir;
+}
+
+export function commitAll(dir: string, message: string) {
+  git(dir, 'add', '-A');
+  git(dir, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', message);
+}
+
+export function git(dir: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd: dir, encoding: 'utf8' }).trim();
+}
\ No newline at end of file
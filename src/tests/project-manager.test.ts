@@ -0,0 +1,104 @@
+import { commitAll, git, gitRepo, tempDir } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { ProjectManager } from '../project-manager.js';
+import { normaliseRemoteUrl } from '../utils/project-identity.js';
+import { gitHead, isMergedInto, trunkBranch } from '../utils/git.js';
+
+test('remote spellings normalise to one identity', () => {
+  for (const url of [
+    'git@github.com:Acme/API.git',
+    'https://user@github.com/acme/api',
+    'ssh://git@github.com:22/acme/api.git',
+    'https://github.com/acme/api/'
+  ]) {
+    assert.equal(normaliseRemoteUrl(url), 'github.com/acme/api', url);
+  }
+});
+
+test('clones of one remote share a project wherever they are checked out', async () => {
+  const first = gitRepo();
+  const second = gitRepo({ 'other.txt': 'a separate history\n' });
+  git(first, 'remote', 'add', 'origin', 'git@github.com:acme/api.git');
+  git(second, 'remote', 'add', 'origin', 'https://github.com/Acme/api');
+
+  const manager = new ProjectManager();
+  const a = await manager.detectProject(first);
+  const b = await manager.detectProject(second);
+
+  assert.equal(b.id, a.id);
+  assert.equal(b.fingerprint, 'git-remote:github.com/acme/api');
+  assert.equal(b.root, second);
+});
+
+test('a moved checkout keeps its project', async () => {
+  const original = gitRepo();
+  const manager = new ProjectManager();
+  const before = await manager.detectProject(original);
+
+  const moved = path.join(tempDir('moved'), 'renamed');
+  fs.moveSync(original, moved);
+
+  // A fresh manager only knows the project from the registry on disk
+  const after = await new ProjectManager().detectProject(moved);
+  assert.equal(after.id, before.id);
+  assert.equal(after.root, moved);
+});
+
+test('a workspace member resolves to the monorepo with the member as package', async () => {
+  const repo = gitRepo({
+    'package.json': JSON.stringify({ name: 'mono', workspaces: ['packages/*'] }),
+    'packages/api/package.json': JSON.stringify({ name: '@acme/api' }),
+    'packages/api/src/index.ts': 'export {};\n',
+    'packages/web/package.json': JSON.stringify({ name: 'web' })
+  });
+
+  const manager = new ProjectManager();
+  const root = await manager.detectProject(repo);
+  assert.equal(manager.getCurrentPackage(), null);
+  assert.deepEqual(root.workspace?.packages, [
+    { name: '@acme/api', path: 'packages/api' },
+    { name: 'web', path: 'packages/web' }
+  ]);
+
+  const member = await manager.detectProject(path.join(repo, 'packages/api/src'));
+  assert.equal(member.id, root.id);
+  assert.equal(member.root, repo);
+  assert.deepEqual(manager.getCurrentPackage(), { name: '@acme/api', path: 'packages/api' });
+});
+
+test('a linked worktree shares the project of its main checkout', async () => {
+  const main = gitRepo();
+  const worktree = path.join(tempDir('worktrees'), 'feature');
+  git(main, 'worktree', 'add', '-q', '-b', 'feature', worktree);
+
+  const manager = new ProjectManager();
+  const project = await manager.detectProject(main);
+  const fromWorktree = await manager.detectProject(worktree);
+
+  assert.equal(fromWorktree.id, project.id);
+  assert.equal(fromWorktree.root, main);
+  assert.equal(manager.getCurrentCheckout(), worktree);
+
+  const head = await gitHead(worktree);
+  assert.equal(head.branch, 'feature');
+  assert.equal(head.commit, git(main, 'rev-parse', 'HEAD'));
+});
+
+test('branch merges are recognised against the trunk', async () => {
+  const repo = gitRepo();
+  git(repo, 'checkout', '-q', '-b', 'feature');
+  fs.writeFileSync(path.join(repo, 'feature.txt'), 'work\n');
+  commitAll(repo, 'feature work');
+  const featureCommit = git(repo, 'rev-parse', 'HEAD');
+
+  assert.equal(await trunkBranch(repo), 'main');
+  assert.equal(await isMergedInto(repo, featureCommit, 'main'), false);
+
+  git(repo, 'checkout', '-q', 'main');
+  git(repo, 'merge', '-q', '--ff-only', 'feature');
+  assert.equal(await isMergedInto(repo, featureCommit, 'main'), true);
+  assert.equal((await gitHead(tempDir('not-a-repo'))).branch, null);
+});
\ No newline at end of file
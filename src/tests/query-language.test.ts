@@ -0,0 +1,73 @@
+import './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { MemoryDatabase } from '../memory-server/database.js';
+import { QueryParseError, compileQuery, describeQuery, isStructuredQuery, parseQuery } from '../memory-server/query-language.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test('plain text stays on the phrase-search path', () => {
+  for (const query of ['useEffect()', "don't use (foo", 'rate-limit "quoted', 'or and not']) {
+    assert.equal(isStructuredQuery(query), false, query);
+  }
+  for (const query of ['tag:auth', 'jwt OR session', '-tag:wip x', 'importance>=4', 'NOT legacy']) {
+    assert.equal(isStructuredQuery(query), true, query);
+  }
+});
+
+test('parses boolean structure and field filters', () => {
+  const ast = parseQuery('tag:auth -tag:wip ("rate limit" OR throttl*) importance>=4');
+  assert.equal(describeQuery(ast), '(tag:auth AND NOT tag:wip AND ("rate limit" OR throttl*) AND importance>=4)');
+});
+
+test('reports the position of syntax errors', () => {
+  const cases: Array<[string, number]> = [
+    ['(jwt OR session', 0],
+    ['jwt OR', 6],
+    ['importance:9', 11],
+    ['created:yesterday', 8],
+    ['path>src', 4]
+  ];
+  for (const [query, position] of cases) {
+    assert.throws(() => parseQuery(query), (error: unknown) =>
+      error instanceof QueryParseError && error.position === position, query);
+  }
+});
+
+test('relative dates compare ages', () => {
+  const now = Date.UTC(2026, 5, 15);
+  const db = new Database(':memory:');
+  db.exec('CREATE TABLE memories (id TEXT, created_at INTEGER, updated_at INTEGER)');
+  const insert = db.prepare('INSERT INTO memories VALUES (?, ?, ?)');
+  insert.run('fresh', now - 2 * DAY_MS, now - DAY_MS);
+  insert.run('old', now - 60 * DAY_MS, now - 40 * DAY_MS);
+
+  const matching = (query: string) => {
+    const { where, params } = compileQuery(parseQuery(query), now);
+    return (db.prepare(`SELECT id FROM memories m WHERE ${where} ORDER BY id`).all(...params) as any[]).map(r => r.id);
+  };
+
+  assert.deepEqual(matching('updated:<7d'), ['fresh']);
+  assert.deepEqual(matching('updated:7d'), ['fresh']);
+  assert.deepEqual(matching('created:>30d'), ['old']);
+  assert.deepEqual(matching('created:>=1w'), ['old']);
+  assert.deepEqual(matching('updated:>1d'), ['old']);
+  assert.deepEqual(matching('updated:<=1d'), ['fresh']);
+  assert.deepEqual(matching('created:>2026-06-01'), ['fresh']);
+  db.close();
+});
+
+test('search falls back to plain text unless structured is requested', () => {
+  const db = new MemoryDatabase('/tmp/query-test', 'query-test');
+  try {
+    db.save({ summary: 'useEffect() cleanup', text: 'Return a cleanup function from useEffect() hooks' });
+
+    assert.equal(db.search({ q: 'useEffect()' }).length, 1);
+    assert.doesNotThrow(() => db.search({ q: "don't use (foo" }));
+    assert.doesNotThrow(() => db.search({ q: 'cleanup AND' }));
+    assert.throws(() => db.search({ q: 'cleanup AND', structured: true }), QueryParseError);
+  } finally {
+    db.close();
+  }
+});
\ No newline at end of file
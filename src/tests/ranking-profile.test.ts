@@ -0,0 +1,89 @@
+import { tempDir } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  BUILTIN_PRESETS,
+  DEFAULT_RANKING_WEIGHTS,
+  listPresets,
+  loadRankingConfig,
+  resolveRankingProfile
+} from '../memory-server/ranking-profile.js';
+
+function projectWithConfig(yaml: string): string {
+  const root = tempDir('ranking');
+  fs.outputFileSync(path.join(root, '.kratos', 'config.yaml'), yaml);
+  return root;
+}
+
+test('the default profile uses the default weights', () => {
+  const profile = resolveRankingProfile({});
+  assert.equal(profile.name, 'default');
+  assert.deepEqual(profile.weights, DEFAULT_RANKING_WEIGHTS);
+  assert.equal(profile.dedupe_threshold, 0.8);
+  assert.equal(profile.mmr_lambda, 0.7);
+});
+
+test('built-in presets override only the weights they name', () => {
+  const profile = resolveRankingProfile({}, 'architecture');
+  assert.equal(profile.weights.superseded_penalty, 4.0);
+  assert.equal(profile.weights.recency, 0.2);
+  assert.equal(profile.weights.tag_match, DEFAULT_RANKING_WEIGHTS.tag_match);
+  assert.equal(profile.mmr_lambda, 0.6);
+  assert.equal(profile.description, BUILTIN_PRESETS.architecture.description);
+});
+
+test('config presets extend others and top-level overrides apply last', () => {
+  const config = loadRankingConfig(projectWithConfig([
+    'ranking:',
+    '  preset: reviewing',
+    '  weights: { recency: 1.0, bogus: 3, importance: high }',
+    '  presets:',
+    '    reviewing:',
+    '      extends: architecture',
+    '      description: Code review',
+    '      weights: { tag_match: 2.0 }',
+    '    debugging:',
+    '      mmr_lambda: 0.9'
+  ].join('\n')));
+
+  const profile = resolveRankingProfile(config);
+  assert.equal(profile.name, 'reviewing');
+  assert.equal(profile.description, 'Code review');
+  assert.equal(profile.weights.tag_match, 2.0);
+  assert.equal(profile.weights.superseded_penalty, 4.0);
+  assert.equal(profile.weights.recency, 1.0);
+  assert.equal(profile.weights.importance, 1.2);
+  assert.equal('bogus' in profile.weights, false);
+
+  // Configuring a built-in name tweaks the built-in
+  const debugging = resolveRankingProfile(config, 'debugging');
+  assert.equal(debugging.mmr_lambda, 0.9);
+  assert.equal(debugging.weights.path_match, 3.0);
+
+  assert.deepEqual(listPresets(config).map(p => [p.name, p.source]), [
+    ['default', 'builtin'],
+    ['debugging', 'config'],
+    ['architecture', 'builtin'],
+    ['onboarding', 'builtin'],
+    ['reviewing', 'config']
+  ]);
+});
+
+test('unknown and circular presets are rejected', () => {
+  assert.throws(() => resolveRankingProfile({}, 'nope'), /Unknown ranking preset 'nope'/);
+  assert.throws(
+    () => resolveRankingProfile({ presets: { a: { extends: 'b' }, b: { extends: 'a' } } }, 'a'),
+    /circular extends chain/
+  );
+  assert.throws(
+    () => resolveRankingProfile({ presets: { a: { extends: 'missing' } } }, 'a'),
+    /extends unknown preset 'missing'/
+  );
+});
+
+test('a missing or unreadable config means defaults', () => {
+  assert.deepEqual(loadRankingConfig(tempDir('no-config')), {});
+  assert.deepEqual(loadRankingConfig(projectWithConfig('ranking: [unclosed')), {});
+});
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { git, gitRepo } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { MemoryDatabase } from '../memory-server/database.js';
+import { blobHash, checkSnapshot, isStale, snapshotPath } from '../memory-server/staleness.js';
+
+const MODULE = Array.from({ length: 50 }, (_, i) => `export const value${i} = ${i};`).join('\n');
+
+test('snapshots hash files the way git does', () => {
+  const repo = gitRepo({ 'src/module.ts': MODULE });
+  const snapshot = snapshotPath(repo, 'src/module.ts')!;
+
+  assert.equal(snapshot.path, 'src/module.ts');
+  assert.equal(snapshot.blob_hash, git(repo, 'hash-object', 'src/module.ts'));
+  assert.equal(snapshot.blob_hash, blobHash(Buffer.from(MODULE)));
+  assert.equal(snapshot.signature.length, 64);
+});
+
+test('checks tell light edits from rewrites and deletions', () => {
+  const repo = gitRepo({ 'src/module.ts': MODULE });
+  const file = path.join(repo, 'src/module.ts');
+  const snapshot = snapshotPath(repo, 'src/module.ts')!;
+
+  // Touched but identical
+  fs.utimesSync(file, new Date(), new Date(Date.now() + 60_000));
+  assert.equal(checkSnapshot(repo, snapshot).status, 'unchanged');
+
+  const lines = MODULE.split('\n');
+  lines[10] = 'export const value10 = 100;';
+  fs.writeFileSync(file, lines.join('\n'));
+  const edited = checkSnapshot(repo, snapshot);
+  assert.equal(edited.status, 'modified');
+  assert.ok(edited.similarity! >= 0.6 && edited.similarity! < 1, `similarity ${edited.similarity}`);
+  assert.equal(checkSnapshot(repo, snapshot, 1).status, 'changed');
+
+  fs.writeFileSync(file, Array.from({ length: 50 }, (_, i) => `export function rewritten${i}() {}`).join('\n'));
+  assert.equal(checkSnapshot(repo, snapshot).status, 'changed');
+
+  fs.removeSync(file);
+  const deleted = checkSnapshot(repo, snapshot);
+  assert.equal(deleted.status, 'deleted');
+  assert.equal(isStale([edited]), false);
+  assert.equal(isStale([edited, deleted]), true);
+});
+
+test('directories, globs, missing and unreadable paths are not snapshotted', () => {
+  const repo = gitRepo({ 'src/module.ts': MODULE });
+  // stat fails with ELOOP on a symlink pointing at itself
+  fs.symlinkSync('loop', path.join(repo, 'loop'));
+
+  for (const memoryPath of ['src', 'src/**/*.ts', 'src/missing.ts', 'loop']) {
+    assert.equal(snapshotPath(repo, memoryPath), null, memoryPath);
+  }
+
+  const snapshot = snapshotPath(repo, 'src/module.ts')!;
+  fs.removeSync(path.join(repo, 'src/module.ts'));
+  fs.symlinkSync('module.ts', path.join(repo, 'src/module.ts'));
+  assert.equal(checkSnapshot(repo, snapshot).status, 'unreadable');
+});
+
+test('relative paths resolve against the package before the repository root', () => {
+  const repo = gitRepo({
+    'packages/api/src/handler.ts': MODULE,
+    'tsconfig.json': '{}'
+  });
+  const packageDir = path.join(repo, 'packages/api');
+
+  assert.equal(snapshotPath(repo, 'src/handler.ts', packageDir)?.path, 'packages/api/src/handler.ts');
+  assert.equal(snapshotPath(repo, 'tsconfig.json', packageDir)?.path, 'tsconfig.json');
+  assert.equal(snapshotPath(repo, 'src/handler.ts'), null);
+
+  const snapshot = snapshotPath(repo, 'src/handler.ts', packageDir)!;
+  fs.removeSync(path.join(packageDir, 'src/handler.ts'));
+  assert.equal(checkSnapshot(repo, snapshot).status, 'deleted');
+});
+
+test('snapshots are stored per memory and expired memories drop out', () => {
+  const repo = gitRepo({ 'src/module.ts': MODULE });
+  const db = new MemoryDatabase(repo, 'staleness');
+  try {
+    const tracked = db.save({ summary: 'Values are constants', text: 'see module', paths: ['src/module.ts'] });
+    db.save({ summary: 'Everything under src', text: 'see src', paths: ['src/'] });
+
+    const snapshot = snapshotPath(repo, 'src/module.ts')!;
+    db.setPathSnapshots(tracked.id, [snapshot]);
+
+    const stored = db.getPathSnapshots().get(tracked.id)!;
+    assert.equal(stored.length, 1);
+    assert.equal(stored[0].blob_hash, snapshot.blob_hash);
+    assert.deepEqual(Array.from(stored[0].signature), Array.from(snapshot.signature));
+    assert.equal(db.countUntrackedPaths(), 1);
+
+    assert.deepEqual(db.expire([tracked.id, 'mem_missing']), { expired: [tracked.id] });
+    assert.equal(db.getPathSnapshots().size, 0);
+    assert.equal(db.getPathSnapshots([tracked.id]).size, 1);
+  } finally {
+    db.close();
+  }
+});
\ No newline at end of file
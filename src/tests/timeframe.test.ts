@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTimeframe } from '../utils/timeframe.js';
+
+// Wednesday 2026-03-18, 15:30 local time
+const NOW = new Date(2026, 2, 18, 15, 30);
+
+function local(year: number, month: number, day: number): number {
+  return new Date(year, month - 1, day).getTime();
+}
+
+test('relative windows count back from now', () => {
+  assert.deepEqual(parseTimeframe('what changed in the last 3 days?', NOW), {
+    label: 'last_3_days',
+    after: NOW.getTime() - 3 * 24 * 60 * 60 * 1000,
+    phrase: 'in the last 3 days'
+  });
+  assert.equal(parseTimeframe('past two hours', NOW)?.after, NOW.getTime() - 2 * 60 * 60 * 1000);
+  assert.equal(parseTimeframe('last a week', NOW)?.label, 'last_1_weeks');
+  assert.equal(parseTimeframe('last 2 months', NOW)?.after, new Date(2026, 0, 18, 15, 30).getTime());
+});
+
+test('calendar windows start at local midnight and weeks on Monday', () => {
+  assert.deepEqual(parseTimeframe('what did we decide today', NOW), { label: 'today', after: local(2026, 3, 18), phrase: 'today' });
+  assert.deepEqual(parseTimeframe('yesterday', NOW), {
+    label: 'yesterday', after: local(2026, 3, 17), before: local(2026, 3, 18), phrase: 'yesterday'
+  });
+  assert.equal(parseTimeframe('this week', NOW)?.after, local(2026, 3, 16));
+  assert.deepEqual(
+    [parseTimeframe('last week', NOW)?.after, parseTimeframe('last week', NOW)?.before],
+    [local(2026, 3, 9), local(2026, 3, 16)]
+  );
+  assert.equal(parseTimeframe('this month', NOW)?.after, local(2026, 3, 1));
+  assert.deepEqual(
+    [parseTimeframe('last month', NOW)?.after, parseTimeframe('last month', NOW)?.before],
+    [local(2026, 2, 1), local(2026, 3, 1)]
+  );
+  assert.equal(parseTimeframe('this year', NOW)?.after, local(2026, 1, 1));
+
+  // On a Sunday the week began six days earlier
+  assert.equal(parseTimeframe('this week', new Date(2026, 2, 22, 9))?.after, local(2026, 3, 16));
+});
+
+test('since takes dates and the most recent past month', () => {
+  assert.deepEqual(parseTimeframe('changes since 2026-02-14', NOW), {
+    label: 'since_2026-02-14', after: local(2026, 2, 14), phrase: 'since 2026-02-14'
+  });
+  assert.equal(parseTimeframe('since march', NOW)?.after, local(2026, 3, 1));
+  assert.equal(parseTimeframe('since Sept', NOW)?.label, 'since_2025-09-01');
+  assert.equal(parseTimeframe('since yesterday', NOW)?.after, local(2026, 3, 17));
+});
+
+test('questions without a window are left alone', () => {
+  assert.equal(parseTimeframe('how do we deploy?', NOW), null);
+  assert.equal(parseTimeframe('since forever', NOW), null);
+  assert.equal(parseTimeframe('the lastest build', NOW), null);
+});
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApproximateBpeTokenizer, ByteCounter } from '../memory-server/tokenizer.js';
+
+const tokenizer = new ApproximateBpeTokenizer();
+
+test('common words are one token each, long identifiers split', () => {
+  assert.equal(tokenizer.count(''), 0);
+  assert.equal(tokenizer.count('use the cache'), 3);
+  assert.equal(tokenizer.count('getUserPermissionsForTenant'), 7);
+  assert.equal(tokenizer.count('1234567'), 3);
+  assert.equal(tokenizer.count('a => b'), 3);
+});
+
+test('non-Latin text counts roughly a token per character', () => {
+  assert.equal(tokenizer.count('日本語'), 3);
+  assert.equal(tokenizer.count('café'), 2);
+});
+
+test('prose costs about four bytes per token', () => {
+  const prose = 'Refresh tokens are rotated on every use, and a reused token revokes the whole session family.';
+  const ratio = Buffer.byteLength(prose) / tokenizer.count(prose);
+  assert.ok(ratio > 3 && ratio < 6, `ratio ${ratio}`);
+});
+
+test('the byte counter counts UTF-8 bytes', () => {
+  assert.equal(new ByteCounter().count('café'), 5);
+});
\ No newline at end of file
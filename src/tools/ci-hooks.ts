@@ -10,7 +10,7 @@ const logger = new Logger('CI-Hooks');
  * CI/CD Integration Hooks for Kratos Protocol
  * 
  * These hooks can be integrated into your CI/CD pipeline to:
- * - Run leak detection tests
+ * - Run unit tests
  * - Perform TTL cleanup
  * - Validate project configurations
  * - Generate memory reports
@@ -19,22 +19,22 @@ const logger = new Logger('CI-Hooks');
 class KratosCIHooks {
   
   /**
-   * Pre-commit hook: Run leak detection tests
+   * Pre-commit hook: Run unit tests
    */
   static async preCommitHook(): Promise<boolean> {
-    logger.info('Running pre-commit leak detection...');
+    logger.info('Running pre-commit unit tests...');
     
     try {
-      // Run leak detection tests
-      const testResult = await KratosCIHooks.runCommand('npm', ['run', 'test:leak']);
+      // Run unit tests
+      const testResult = await KratosCIHooks.runCommand('npm', ['run', 'test:unit']);
       
       if (testResult.exitCode !== 0) {
-        logger.error('❌ Leak detection tests failed!');
+        logger.error('❌ Unit tests failed!');
         logger.error('Output:', testResult.output);
         return false;
       }
       
-      logger.info('✅ Leak detection tests passed');
+      logger.info('✅ Unit tests passed');
       return true;
       
     } catch (error) {
@@ -333,7 +333,7 @@ class KratosCIHooks {
     };
     
     try {
-      const conceptDbPath = path.join(require('os').homedir(), '.kratos', 'concept_store.db');
+      const conceptDbPath = path.join(require('os').homedir(), '.kratos', 'global', 'concepts.db');
       
       if (await fs.pathExists(conceptDbPath)) {
         const stats = await fs.stat(conceptDbPath);
@@ -395,7 +395,7 @@ class KratosCIHooks {
     };
     
     try {
-      const conceptDbPath = path.join(require('os').homedir(), '.kratos', 'concept_store.db');
+      const conceptDbPath = path.join(require('os').homedir(), '.kratos', 'global', 'concepts.db');
       
       if (await fs.pathExists(conceptDbPath)) {
         const fileStats = await fs.stat(conceptDbPath);
@@ -532,7 +532,7 @@ async function main() {
       default:
         console.log('Usage: kratos-ci-hooks <command>');
         console.log('Commands:');
-        console.log('  pre-commit      - Run leak detection tests');
+        console.log('  pre-commit      - Run unit tests');
         console.log('  pre-push        - Validate project configurations');
         console.log('  nightly-cleanup - Clean up expired memories');
         console.log('  security-audit  - Check for security vulnerabilities');
@@ -74,7 +74,8 @@ class KratosMigrationTool {
       memoryDb = new MemoryDatabase(projectRoot, projectId);
     }
 
-    const conceptStore = ConceptStore.getInstance();
+    // Concepts extracted from a project's memories stay in that project's store
+    const conceptStore = ConceptStore.getInstance(projectId);
     const conceptCandidates = new Map<string, any>();
 
     // 5. Migrate each memory
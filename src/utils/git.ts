@@ -0,0 +1,108 @@
+/**
+ * Thin wrappers around the git CLI. Every call is bounded by a timeout and
+ * resolves to null (or false) instead of throwing when git is missing or the
+ * directory is not a repository.
+ */
+import { spawn } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+
+const GIT_TIMEOUT_MS = 3000;
+
+export interface GitHead {
+  /** null on a detached HEAD */
+  branch: string | null;
+  commit: string | null;
+}
+
+/**
+ * Trimmed stdout of a git command, or null when it fails or prints nothing
+ */
+export async function git(cwd: string, args: string[]): Promise<string | null> {
+  const { code, output } = await run(cwd, args);
+  return code === 0 && output ? output : null;
+}
+
+/**
+ * The main checkout of a linked worktree (`git worktree add`), or null when
+ * the directory is not a linked worktree. For worktrees of a bare repository
+ * the repository directory itself stands in for the main checkout.
+ */
+export async function mainWorktreeRoot(checkoutRoot: string): Promise<string | null> {
+  const dotGit = path.join(checkoutRoot, '.git');
+  // A linked worktree has a .git file pointing into the main repository
+  const stat = await fs.stat(dotGit).catch(() => null);
+  if (!stat?.isFile()) return null;
+
+  const commonDir = await git(checkoutRoot, ['rev-parse', '--git-common-dir']);
+  if (!commonDir) return null;
+
+  const resolved = path.resolve(checkoutRoot, commonDir);
+  return path.basename(resolved) === '.git' ? path.dirname(resolved) : resolved;
+}
+
+export async function gitHead(checkoutRoot: string): Promise<GitHead> {
+  const [branch, commit] = await Promise.all([
+    git(checkoutRoot, ['symbolic-ref', '--quiet', '--short', 'HEAD']),
+    git(checkoutRoot, ['rev-parse', '--verify', '--quiet', 'HEAD'])
+  ]);
+  return { branch, commit };
+}
+
+/**
+ * The branch work is merged into: origin's default branch, else main or master
+ */
+export async function trunkBranch(checkoutRoot: string): Promise<string | null> {
+  const originHead = await git(checkoutRoot, ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD']);
+  if (originHead) return originHead.replace(/^origin\//, '');
+
+  for (const candidate of ['main', 'master']) {
+    if (await git(checkoutRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${candidate}`])) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Commit a local branch points at, or null when it does not exist (any more)
+ */
+export async function branchCommit(checkoutRoot: string, branch: string): Promise<string | null> {
+  return git(checkoutRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}^{commit}`]);
+}
+
+/**
+ * Whether a commit is reachable from a ref, i.e. has been merged into it.
+ * Squash and rebase merges rewrite commits, so they are not recognised.
+ */
+export async function isMergedInto(checkoutRoot: string, commit: string, ref: string): Promise<boolean> {
+  const { code } = await run(checkoutRoot, ['merge-base', '--is-ancestor', commit, ref]);
+  return code === 0;
+}
+
+/**
+ * Commits since a given one that touched a path, or null outside git or when
+ * the commit is unknown (e.g. it was rebased away)
+ */
+export async function commitsTouching(checkoutRoot: string, since: string, file: string): Promise<number | null> {
+  const count = await git(checkoutRoot, ['rev-list', '--count', `${since}..HEAD`, '--', file]);
+  return count === null ? null : Number(count);
+}
+
+function run(cwd: string, args: string[]): Promise<{ code: number | null; output: string }> {
+  return new Promise(resolve => {
+    const child = spawn('git', args, { cwd, stdio: ['ignore', 'pipe', 'ignore'] });
+    let output = '';
+    const timer = setTimeout(() => child.kill(), GIT_TIMEOUT_MS);
+
+    child.stdout.on('data', data => { output += data.toString(); });
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve({ code, output: output.trim() });
+    });
+    child.on('error', () => {
+      clearTimeout(timer);
+      resolve({ code: null, output: '' });
+    });
+  });
+}
\ No newline at end of file
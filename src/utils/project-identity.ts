@@ -0,0 +1,127 @@
+/**
+ * Stable project identity. A checkout is recognised by, in order of preference:
+ * - an ID pinned in <root>/.kratos/project.json ({ "id": "proj_..." })
+ * - its normalised git remote URL (origin, else the first remote)
+ * - the hash of its first commit
+ * Cloning or moving a repository keeps all of these, unlike its absolute path.
+ */
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { git } from './git.js';
+
+export type FingerprintSource = 'pinned' | 'git-remote' | 'git-root-commit';
+
+export interface ProjectFingerprint {
+  source: FingerprintSource;
+  value: string;
+}
+
+/**
+ * Fingerprints for a project root, strongest first. Git fingerprints are only
+ * taken when the root itself is a repository, so a package inside a monorepo
+ * does not borrow the identity of the repository around it.
+ */
+export async function projectFingerprints(projectRoot: string): Promise<ProjectFingerprint[]> {
+  const fingerprints: ProjectFingerprint[] = [];
+
+  const pinned = await readPinnedProjectId(projectRoot);
+  if (pinned) {
+    fingerprints.push({ source: 'pinned', value: pinned });
+  }
+
+  if (await fs.pathExists(path.join(projectRoot, '.git'))) {
+    const remote = await gitRemoteUrl(projectRoot);
+    if (remote) {
+      fingerprints.push({ source: 'git-remote', value: normaliseRemoteUrl(remote) });
+    }
+
+    const rootCommit = await gitRootCommit(projectRoot);
+    if (rootCommit) {
+      fingerprints.push({ source: 'git-root-commit', value: rootCommit });
+    }
+  }
+
+  return fingerprints;
+}
+
+/**
+ * 'git-remote:github.com/acme/api', as stored on the project record
+ */
+export function fingerprintKey(fingerprint: ProjectFingerprint): string {
+  return `${fingerprint.source}:${fingerprint.value}`;
+}
+
+/**
+ * Project ID derived from a fingerprint; pinned IDs are used as they are
+ */
+export function fingerprintProjectId(fingerprint: ProjectFingerprint): string {
+  if (fingerprint.source === 'pinned') return fingerprint.value;
+  const hash = crypto.createHash('sha256').update(fingerprintKey(fingerprint)).digest('hex');
+  return `proj_${hash.substring(0, 12)}`;
+}
+
+/**
+ * Reduce the spellings of one remote to a single form:
+ * git@github.com:Acme/API.git, https://user@github.com/acme/api and
+ * ssh://git@github.com:22/acme/api.git all become github.com/acme/api
+ */
+export function normaliseRemoteUrl(url: string): string {
+  let trimmed = url.trim();
+
+  // scp-like syntax: [user@]host:path
+  const scp = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(?!\/\/)(.+)$/);
+  if (scp) {
+    trimmed = `${scp[1]}/${scp[2]}`;
+  } else {
+    try {
+      const parsed = new URL(trimmed);
+      trimmed = parsed.protocol === 'file:' ? parsed.pathname : `${parsed.hostname}${parsed.pathname}`;
+    } catch {
+      // Local paths and other oddities are compared as written
+    }
+  }
+
+  return trimmed
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '')
+    .replace(/^\/+/, '')
+    .toLowerCase();
+}
+
+export async function readPinnedProjectId(projectRoot: string): Promise<string | null> {
+  const pinFile = path.join(projectRoot, '.kratos', 'project.json');
+  if (!(await fs.pathExists(pinFile))) return null;
+
+  try {
+    const pin = await fs.readJson(pinFile);
+    return typeof pin?.id === 'string' && pin.id.startsWith('proj_') ? pin.id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the project ID in <root>/.kratos/project.json, keeping other fields
+ */
+export async function pinProjectId(projectRoot: string, projectId: string): Promise<string> {
+  const pinFile = path.join(projectRoot, '.kratos', 'project.json');
+  const existing = await fs.pathExists(pinFile) ? await fs.readJson(pinFile).catch(() => ({})) : {};
+  await fs.ensureDir(path.dirname(pinFile));
+  await fs.writeJson(pinFile, { ...existing, id: projectId }, { spaces: 2 });
+  return pinFile;
+}
+
+async function gitRemoteUrl(projectRoot: string): Promise<string | null> {
+  const origin = await git(projectRoot, ['config', '--get', 'remote.origin.url']);
+  if (origin) return origin;
+
+  const firstRemote = (await git(projectRoot, ['remote']))?.split('\n')[0];
+  return firstRemote ? git(projectRoot, ['config', '--get', `remote.${firstRemote}.url`]) : null;
+}
+
+async function gitRootCommit(projectRoot: string): Promise<string | null> {
+  // Histories joined from several repositories have more than one root
+  const roots = await git(projectRoot, ['rev-list', '--max-parents=0', 'HEAD']);
+  return roots ? roots.split('\n').sort()[0] : null;
+}
\ No newline at end of file
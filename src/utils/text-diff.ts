@@ -0,0 +1,66 @@
+/**
+ * Minimal line-based diff used to show what changed between memory revisions.
+ * Output resembles a unified diff body: ' ' for unchanged, '-' for removed and
+ * '+' for added lines, with long unchanged runs collapsed to keep it compact.
+ */
+export function diffLines(before: string, after: string, context: number = 2): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ op: ' ' | '-' | '+'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ op: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ op: '-', line: a[i++] });
+    } else {
+      ops.push({ op: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ op: '-', line: a[i++] });
+  while (j < b.length) ops.push({ op: '+', line: b[j++] });
+
+  if (!ops.some(o => o.op !== ' ')) {
+    return '';
+  }
+
+  // Keep only unchanged lines that sit within `context` lines of a change
+  const keep = ops.map(() => false);
+  ops.forEach((o, idx) => {
+    if (o.op === ' ') return;
+    for (let k = Math.max(0, idx - context); k <= Math.min(ops.length - 1, idx + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const lines: string[] = [];
+  let skipped = false;
+  ops.forEach((o, idx) => {
+    if (!keep[idx]) {
+      skipped = true;
+      return;
+    }
+    if (skipped) {
+      lines.push('...');
+      skipped = false;
+    }
+    lines.push(`${o.op} ${o.line}`);
+  });
+  if (skipped) {
+    lines.push('...');
+  }
+
+  return lines.join('\n');
+}
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * Resolve natural-language time windows ("yesterday", "last 3 days",
+ * "since March") to created_at bounds. Calendar windows use local time,
+ * weeks start on Monday.
+ */
+
+export interface Timeframe {
+  /** Normalised name, e.g. 'today', 'last_3_days', 'since_2026-03-01' */
+  label: string;
+  /** Inclusive lower bound (epoch ms) */
+  after: number;
+  /** Exclusive upper bound (epoch ms); open-ended when omitted */
+  before?: number;
+  /** The words in the question that described the window */
+  phrase: string;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july',
+  'august', 'september', 'october', 'november', 'december'];
+
+const UNIT_MS: Record<string, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+
+export function parseTimeframe(text: string, now: Date = new Date()): Timeframe | null {
+  const lower = text.toLowerCase();
+  const today = startOfDay(now);
+
+  const relative = lower.match(/\b(?:in the )?(?:last|past)\s+(\d+|a|an|one|two|three|four|five|six|seven)\s+(hour|day|week|month)s?\b/);
+  if (relative) {
+    const count = parseCount(relative[1]);
+    const unit = relative[2];
+    const after = unit === 'month'
+      ? addMonths(now, -count).getTime()
+      : now.getTime() - count * UNIT_MS[unit];
+    return { label: `last_${count}_${unit}s`, after, phrase: relative[0] };
+  }
+
+  const since = lower.match(/\bsince\s+(\d{4}-\d{2}-\d{2}|[a-z]+)\b/);
+  if (since) {
+    const after = parseSince(since[1], now);
+    if (after !== null) {
+      return { label: `since_${formatDate(new Date(after))}`, after, phrase: since[0] };
+    }
+  }
+
+  if (/\btoday\b/.test(lower)) {
+    return { label: 'today', after: today.getTime(), phrase: 'today' };
+  }
+  if (/\byesterday\b/.test(lower)) {
+    return { label: 'yesterday', after: addDays(today, -1).getTime(), before: today.getTime(), phrase: 'yesterday' };
+  }
+
+  const weekStart = addDays(today, -((today.getDay() + 6) % 7));
+  if (/\bthis week\b/.test(lower)) {
+    return { label: 'this_week', after: weekStart.getTime(), phrase: 'this week' };
+  }
+  if (/\blast week\b/.test(lower)) {
+    return { label: 'last_week', after: addDays(weekStart, -7).getTime(), before: weekStart.getTime(), phrase: 'last week' };
+  }
+
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  if (/\bthis month\b/.test(lower)) {
+    return { label: 'this_month', after: monthStart.getTime(), phrase: 'this month' };
+  }
+  if (/\blast month\b/.test(lower)) {
+    return { label: 'last_month', after: addMonths(monthStart, -1).getTime(), before: monthStart.getTime(), phrase: 'last month' };
+  }
+
+  if (/\bthis year\b/.test(lower)) {
+    return { label: 'this_year', after: new Date(now.getFullYear(), 0, 1).getTime(), phrase: 'this year' };
+  }
+
+  return null;
+}
+
+/**
+ * "since March" means the most recent March 1st that is not in the future
+ */
+function parseSince(value: string, now: Date): number | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return isNaN(date.getTime()) ? null : date.getTime();
+  }
+
+  if (value === 'yesterday') return addDays(startOfDay(now), -1).getTime();
+
+  const month = MONTHS.findIndex(m => m === value || (value.length >= 3 && m.startsWith(value)));
+  if (month === -1) return null;
+
+  const year = month > now.getMonth() ? now.getFullYear() - 1 : now.getFullYear();
+  return new Date(year, month, 1).getTime();
+}
+
+function parseCount(value: string): number {
+  const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7 };
+  return words[value] ?? parseInt(value, 10);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
\ No newline at end of file
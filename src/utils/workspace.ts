@@ -0,0 +1,206 @@
+/**
+ * Monorepo workspace detection. A workspace root declares its members in:
+ * - package.json "workspaces" (npm, yarn)
+ * - pnpm-workspace.yaml "packages"
+ * - Cargo.toml [workspace] members
+ * - go.work use directives
+ * The whole repository is one project; each member is a named sub-scope.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+
+export type WorkspaceKind = 'npm' | 'pnpm' | 'cargo' | 'go';
+
+export interface WorkspacePackage {
+  name: string;
+  /** Relative to the workspace root, with forward slashes */
+  path: string;
+}
+
+export interface Workspace {
+  root: string;
+  kinds: WorkspaceKind[];
+  packages: WorkspacePackage[];
+}
+
+// Manifest a member directory must contain for each kind of workspace
+const MEMBER_MANIFESTS: Record<WorkspaceKind, string> = {
+  npm: 'package.json',
+  pnpm: 'package.json',
+  cargo: 'Cargo.toml',
+  go: 'go.mod'
+};
+
+const SKIP_DIRS = new Set(['node_modules', '.git', 'target', 'dist', 'build', 'vendor']);
+// How deep member globs are expanded below the workspace root
+const MAX_MEMBER_DEPTH = 4;
+
+/**
+ * The workspace a project root belongs to: the root itself, or an ancestor
+ * (up to the enclosing git repository) that lists it as a member
+ */
+export async function findWorkspace(projectRoot: string): Promise<Workspace | null> {
+  const resolved = path.resolve(projectRoot);
+  let dir = resolved;
+
+  while (dir !== path.dirname(dir)) {
+    const workspace = await readWorkspace(dir);
+    if (workspace && (dir === resolved || workspace.packages.some(p => path.resolve(dir, p.path) === resolved))) {
+      return workspace;
+    }
+    // A workspace never spans repositories
+    if (await fs.pathExists(path.join(dir, '.git'))) break;
+    dir = path.dirname(dir);
+  }
+
+  return null;
+}
+
+/**
+ * The member containing a directory, if any (the innermost one for nested members)
+ */
+export function packageForDir(workspace: Workspace, dir: string): WorkspacePackage | null {
+  const relative = path.relative(workspace.root, path.resolve(dir)).split(path.sep).join('/');
+  if (relative.startsWith('..')) return null;
+
+  return workspace.packages
+    .filter(p => relative === p.path || relative.startsWith(`${p.path}/`))
+    .sort((a, b) => b.path.length - a.path.length)[0] ?? null;
+}
+
+async function readWorkspace(root: string): Promise<Workspace | null> {
+  const patterns: Array<{ kind: WorkspaceKind; patterns: string[] }> = [];
+
+  const packageJson = path.join(root, 'package.json');
+  if (await fs.pathExists(packageJson)) {
+    const workspaces = (await fs.readJson(packageJson).catch(() => null))?.workspaces;
+    const list = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    if (Array.isArray(list)) patterns.push({ kind: 'npm', patterns: list.map(String) });
+  }
+
+  const pnpmWorkspace = path.join(root, 'pnpm-workspace.yaml');
+  if (await fs.pathExists(pnpmWorkspace)) {
+    try {
+      const list = (yaml.load(await fs.readFile(pnpmWorkspace, 'utf8')) as any)?.packages;
+      if (Array.isArray(list)) patterns.push({ kind: 'pnpm', patterns: list.map(String) });
+    } catch {
+      // An unreadable workspace file just means no pnpm members
+    }
+  }
+
+  const cargoToml = path.join(root, 'Cargo.toml');
+  if (await fs.pathExists(cargoToml)) {
+    const members = cargoWorkspaceMembers(await fs.readFile(cargoToml, 'utf8'));
+    if (members) patterns.push({ kind: 'cargo', patterns: members });
+  }
+
+  const goWork = path.join(root, 'go.work');
+  if (await fs.pathExists(goWork)) {
+    patterns.push({ kind: 'go', patterns: goWorkUses(await fs.readFile(goWork, 'utf8')) });
+  }
+
+  if (patterns.length === 0) return null;
+
+  const packages = new Map<string, WorkspacePackage>();
+  for (const { kind, patterns: kindPatterns } of patterns) {
+    for (const member of await expandMembers(root, kindPatterns, MEMBER_MANIFESTS[kind])) {
+      if (!packages.has(member)) {
+        packages.set(member, { name: await packageName(root, member), path: member });
+      }
+    }
+  }
+
+  // Two members with the same name are told apart by their paths
+  const names = Array.from(packages.values()).map(p => p.name);
+  for (const pkg of packages.values()) {
+    if (names.filter(name => name === pkg.name).length > 1) pkg.name = pkg.path;
+  }
+
+  return {
+    root,
+    kinds: patterns.map(p => p.kind),
+    packages: Array.from(packages.values()).sort((a, b) => a.path.localeCompare(b.path))
+  };
+}
+
+function cargoWorkspaceMembers(toml: string): string[] | null {
+  // The [workspace] table runs until the next table header
+  const section = toml.match(/^\s*\[workspace\]\s*$([\s\S]*?)(?=^\s*\[[^\]\n]+\]\s*$|(?![\s\S]))/m);
+  if (!section) return null;
+
+  const members = section[1].match(/^\s*members\s*=\s*\[([\s\S]*?)\]/m);
+  const excluded = section[1].match(/^\s*exclude\s*=\s*\[([\s\S]*?)\]/m);
+  const strings = (list?: string) => Array.from((list || '').matchAll(/"([^"]+)"/g), m => m[1]);
+  return [...strings(members?.[1]), ...strings(excluded?.[1]).map(p => `!${p}`)];
+}
+
+function goWorkUses(goWork: string): string[] {
+  const source = goWork.replace(/\/\/.*$/gm, '');
+  const uses: string[] = [];
+  for (const block of source.matchAll(/^\s*use\s*\(([\s\S]*?)\)/gm)) {
+    uses.push(...block[1].split(/\s+/).filter(Boolean));
+  }
+  for (const single of source.matchAll(/^\s*use\s+([^\s(]+)\s*$/gm)) {
+    uses.push(single[1]);
+  }
+  return uses;
+}
+
+/**
+ * Member directories (relative, forward slashes) matching the patterns;
+ * patterns starting with '!' exclude
+ */
+async function expandMembers(root: string, patterns: string[], manifest: string): Promise<string[]> {
+  const normalise = (pattern: string) => pattern.replace(/^!/, '').replace(/^\.\//, '').replace(/\/+$/, '');
+  const include = patterns.filter(p => !p.startsWith('!')).map(p => globToRegExp(normalise(p)));
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => globToRegExp(normalise(p)));
+
+  const members: string[] = [];
+  const walk = async (relative: string, depth: number) => {
+    if (depth > MAX_MEMBER_DEPTH) return;
+    const entries = await fs.readdir(path.join(root, relative), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (!entry.isDirectory() || SKIP_DIRS.has(entry.name) || entry.name.startsWith('.')) continue;
+
+      const child = relative ? `${relative}/${entry.name}` : entry.name;
+      if (include.some(re => re.test(child)) && !exclude.some(re => re.test(child))
+          && await fs.pathExists(path.join(root, child, manifest))) {
+        members.push(child);
+      }
+      await walk(child, depth + 1);
+    }
+  };
+
+  await walk('', 1);
+  return members;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map(part => part
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+async function packageName(root: string, member: string): Promise<string> {
+  const dir = path.join(root, member);
+
+  const packageJson = path.join(dir, 'package.json');
+  if (await fs.pathExists(packageJson)) {
+    const name = (await fs.readJson(packageJson).catch(() => null))?.name;
+    if (typeof name === 'string' && name) return name;
+  }
+
+  const cargoToml = path.join(dir, 'Cargo.toml');
+  if (await fs.pathExists(cargoToml)) {
+    const name = (await fs.readFile(cargoToml, 'utf8')).match(/^\s*\[package\][^[]*?^\s*name\s*=\s*"([^"]+)"/m);
+    if (name) return name[1];
+  }
+
+  return path.basename(member);
+}
\ No newline at end of file